@@ -1,75 +1,48 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { processImage } from './services/geminiService';
-import { ImageSize, ProcessingState, ProcessedImage, AspectRatio, FilmStock, ISOValue } from './types';
+import { ImageSize, ProcessingState, ProcessedImage, AspectRatio, FilmStock, ISOValue, BatchJob, DevelopmentRecipe, ProcessorId, GrainPass, StoredLut, FilmStockProfile, SavedRecipe, HistoryFilter, HistorySort, PrintProvenance, PrintLineage, PrintMask, TileStatus, PanOffset, PromptTemplate, UsageEntry, UsageSettings, LabErrorCode, CacheMode } from './types';
 import ComparisonSlider from './components/ComparisonSlider';
-import { getHistory, saveHistoryItem, deleteHistoryItemFromDB, clearHistoryDB } from './services/dbService';
+import DevelopmentQueuePanel from './components/DevelopmentQueuePanel';
+import GrainDarkroom from './components/GrainDarkroom';
+import ColorGradePanel from './components/ColorGradePanel';
+import FilmStockEditor from './components/FilmStockEditor';
+import RecipeShelf from './components/RecipeShelf';
+import ContactSheetFilters from './components/ContactSheetFilters';
+import BracketPanel from './components/BracketPanel';
+import MaskEditor from './components/MaskEditor';
+import DriftBadge from './components/DriftBadge';
+import ScopesPanel from './components/ScopesPanel';
+import PromptTemplateEditor from './components/PromptTemplateEditor';
+import UsagePanel from './components/UsagePanel';
+import { getHistory, getHistoryPage, countHistory, findHistoryByCacheKey, HistoryCursor, HistoryQuery, releaseObjectUrls, saveHistoryItem, deleteHistoryItemFromDB, clearHistoryDB, getStockLuts, saveStockLut, deleteStockLut, getFilmStockProfiles, saveFilmStockProfile, deleteFilmStockProfile } from './services/dbService';
+import { createDevelopmentQueue, DevelopmentQueue } from './services/developmentQueue';
+import { PROCESSORS, getProcessor } from './services/imageProcessor';
+import { toLabError, throwIfAborted, withTimeout, createCancelledError } from './services/labError';
+import { withRetry, DEFAULT_RETRY_POLICY, RetryWait } from './services/retryPolicy';
+import { applyGrain, grainSeed } from './services/grainEngine';
+import { buildStockLut, parseCubeFile, serializeCube, applyLutToImage } from './services/lutService';
+import { BUILT_IN_PROFILES, ISO_VALUES, resolveStockProfile, clampIsoToProfile, createCustomProfile } from './services/filmStockRegistry';
+import { toDataUrl } from './services/canvasUtils';
+import { exportLabArchive, importLabArchive } from './services/archiveService';
+import { compositeWithMask } from './services/maskCompositor';
+import { measureDrift } from './services/imageAnalysis';
+import { developTiled, TILE_GRIDS, TILE_PROMPT_NOTE, TILED_MAX_LONG_EDGE } from './services/tiledDevelopment';
+import { embedPrintMetadata, provenanceFor, readPrintMetadata } from './services/printMetadata';
+import { DEFAULT_HISTORY_FILTER, compareHistory, groupIntoStacks, isFilterActive, matchesHistoryFilter, readHistoryQuery, writeHistoryQuery } from './services/historyFilter';
+import { DEFAULT_PROMPT_TEMPLATE, findPromptTemplate, loadActiveTemplateId, loadPromptTemplates, renderPrompt, saveTemplateVersion, storeActiveTemplateId, storePromptTemplates, templateRef } from './services/promptTemplates';
+import { assertWithinBudget, clearUsage, estimateCost, loadSpend, loadUsage, loadUsageSettings, outcomeFor, reserveBudget, settleUsage, storeUsageSettings, UsageSpend } from './services/usageLedger';
+import { developmentKey } from './services/developmentCache';
+import { ACCEPTED_NEGATIVE_LABEL, ACCEPTED_NEGATIVE_TYPES, filesFromClipboard, filesFromDrop, filesFromFolder, hasDraggedFiles, RejectedNegative, validateNegatives } from './services/negativeIntake';
+import { loadRecipes, storeRecipes, recipesMatch, recipeFromPrint, serializeRecipes, parseRecipeImport, mergeRecipes } from './services/recipeService';
 
 const SESSION_KEY = 'desynthesize_session_active';
-
-const BASE_PROMPT_TEMPLATE = (intensity: number) => {
-  let skinPrompt = "";
-  if (intensity < 30) {
-    skinPrompt = "Apply a light photographic grain and micro-texture to the skin, effectively removing synthetic digital smoothness while keeping the character's appearance clean and polished.";
-  } else if (intensity > 70) {
-    skinPrompt = "Apply professional high-fidelity skin reconstruction. Focus on restoring intricate skin details like natural pore structure and fine organic textures. The result should feel raw and authentic, resembling an unretouched high-resolution film negative, while honoring the character's original features and avoiding any exaggerated blemishes.";
-  } else {
-    skinPrompt = "Restore realistic skin texture with natural variation. Preserve the character's features while adding the subtle depth and organic feel of real skin, effectively bridging the gap between digital generation and authentic photography.";
-  }
-  
-  return `A portrait with ${skinPrompt}, while maintaining consistent lighting, props, and set design.`;
-};
-
-const FILM_STOCK_CHARACTERISTICS: Record<FilmStock, string> = {
-  'Kodak Portra 400': 'Legendary skin tones. Warm, golden hues with a natural highlight roll-off. Ideal for portraits requiring a soft, organic feel.',
-  'Kodak Gold 200': 'The classic consumer aesthetic. Saturated yellows and punchy reds with a warm, nostalgic 90s snapshot vibe.',
-  'Kodak Ektachrome E100': 'Professional color reversal film. Exceptional sharpness, clean cool shadows, and neutral, realistic whites.',
-  'Kodak Tri-X 400 (B&W)': 'High-contrast monochrome. Gritty, punchy textures with deep blacks and a legendary journalistic character.',
-  'Fujifilm Velvia 50': 'Hyper-saturated color. Intense greens and magentas with very high contrast. A distinctive, high-drama slide film look.',
-  'Fujifilm Provia 100F': 'Balanced professional slide film. Neutral color reproduction with incredible sharpness and fine grain structure.',
-  'Fujifilm Pro 400H': 'Pastel palette. Soft, airy tones with a signature subtle cyan/green tint in the shadows. Perfect for ethereal lighting.',
-  'Ilford HP5 Plus (B&W)': 'Classic street photography film. Wide tonal range with a punchy, organic grain that feels raw and authentic.',
-  'Cinestill 800T': 'Cinematic tungsten-balanced film. Unique "red glow" halation around bright lights with a cool, moody night-time color shift.'
-};
-
-interface ThemeConfig {
-  brand: string;
-  accent: string;
-  logo: string;
-  logoBg: string;
-  logoText: string;
-}
-
-const THEMES: Record<string, ThemeConfig> = {
-  kodak: {
-    brand: '#E12127', // Red
-    accent: '#FFD500', // Yellow
-    logo: 'K',
-    logoBg: '#FFD500',
-    logoText: '#E12127'
-  },
-  fuji: {
-    brand: '#00843D', // Fuji Green
-    accent: '#FFFFFF', // White
-    logo: 'F',
-    logoBg: '#FFFFFF',
-    logoText: '#00843D'
-  },
-  mono: {
-    brand: '#FFFFFF', // White
-    accent: '#444444', // Dark Grey
-    logo: 'I',
-    logoBg: '#222222',
-    logoText: '#FFFFFF'
-  }
-};
-
-const getThemeForStock = (stock: FilmStock): ThemeConfig => {
-  if (stock.includes('Kodak') && !stock.includes('B&W')) return THEMES.kodak;
-  if (stock.includes('Fujifilm')) return THEMES.fuji;
-  if (stock.includes('Cinestill')) return { ...THEMES.mono, logo: 'C' };
-  if (stock.includes('B&W') || stock.includes('Ilford')) return THEMES.mono;
-  return THEMES.kodak;
-};
+const PROCESSOR_KEY = 'desynthesize_processor';
+const RETRY_ATTEMPTS_KEY = 'desynthesize_retry_attempts';
+const TIMEOUT_KEY = 'desynthesize_timeout_seconds';
+const DEFAULT_TIMEOUT_SECONDS = 180;
+const LUT_STRENGTH_KEY = 'desynthesize_lut_strength';
+const TILE_GRID_KEY = 'desynthesize_tile_grid';
+const CACHE_MODE_KEY = 'desynthesize_cache_mode';
+const HISTORY_PAGE_SIZE = 36;
 
 const calculateClosestAspectRatio = (width: number, height: number): AspectRatio => {
   const ratio = width / height;
@@ -85,6 +58,30 @@ const calculateClosestAspectRatio = (width: number, height: number): AspectRatio
   ).value;
 };
 
+const readImageFile = (file: File): Promise<{ dataUrl: string; aspectRatio: AspectRatio }> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const result = event.target?.result as string;
+      const img = new Image();
+      img.onload = () => resolve({ dataUrl: result, aspectRatio: calculateClosestAspectRatio(img.width, img.height) });
+      img.onerror = () => reject(new Error(`Could not read ${file.name} as an image.`));
+      img.src = result;
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+const loadStoredProcessor = (): ProcessorId => {
+  const stored = localStorage.getItem(PROCESSOR_KEY);
+  return stored && stored in PROCESSORS ? stored as ProcessorId : 'gemini';
+};
+
+const createEntryId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const lineageOf = (item: ProcessedImage): PrintLineage => ({ parentId: item.id, stackId: item.stackId ?? item.id });
+
 const getDownloadFilename = (stock: string, isoValue: number, ts?: number) => {
   const date = ts ? new Date(ts) : new Date();
   const pad = (n: number) => n.toString().padStart(2, '0');
@@ -104,20 +101,90 @@ const getDownloadFilename = (stock: string, isoValue: number, ts?: number) => {
 const App: React.FC = () => {
   const [originalBase64, setOriginalBase64] = useState<string | null>(null);
   const [processedUrl, setProcessedUrl] = useState<string | null>(null);
+  const [activeEntryId, setActiveEntryId] = useState<string | null>(null);
+  const [isGraining, setIsGraining] = useState(false);
   const [processingState, setProcessingState] = useState<ProcessingState>({ status: 'idle' });
   const [imageSize, setImageSize] = useState<ImageSize>('1K');
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
   const [filmStock, setFilmStock] = useState<FilmStock>('Kodak Portra 400');
   const [iso, setIso] = useState<ISOValue>(400);
   const [skinDetail, setSkinDetail] = useState<number>(50);
+  const [lutStrength, setLutStrength] = useState<number>(() => parseInt(localStorage.getItem(LUT_STRENGTH_KEY) || '') || 0);
+  const [customLuts, setCustomLuts] = useState<Partial<Record<FilmStock, StoredLut>>>({});
+  const [customStocks, setCustomStocks] = useState<FilmStockProfile[]>([]);
+  const [editingStock, setEditingStock] = useState<FilmStockProfile | null>(null);
+  const [lutError, setLutError] = useState<string | null>(null);
+  const [recipes, setRecipes] = useState<SavedRecipe[]>(loadRecipes);
+  const [activeRecipeId, setActiveRecipeId] = useState<string | null>(null);
+  const [recipeError, setRecipeError] = useState<string | null>(null);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(loadPromptTemplates);
+  const [activeTemplateId, setActiveTemplateId] = useState<string>(loadActiveTemplateId);
+  const [usageLedger, setUsageLedger] = useState<UsageEntry[]>(loadUsage);
+  const [usageSpend, setUsageSpend] = useState<UsageSpend>(() => loadSpend());
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [embeddedRecipe, setEmbeddedRecipe] = useState<PrintProvenance | null>(null);
+  const [variantParent, setVariantParent] = useState<ProcessedImage | null>(null);
+  const [developMask, setDevelopMask] = useState<PrintMask | null>(null);
+  const [showMaskEditor, setShowMaskEditor] = useState(false);
+  const [expandedStacks, setExpandedStacks] = useState<Set<string>>(() => new Set());
   const [history, setHistory] = useState<ProcessedImage[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<HistoryCursor | null>(null);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>(() => readHistoryQuery(window.location.search).filter);
+  const [historySort, setHistorySort] = useState<HistorySort>(() => readHistoryQuery(window.location.search).sort);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [archiveStatus, setArchiveStatus] = useState<{ message: string; error?: boolean } | null>(null);
   const [compareMode, setCompareMode] = useState(false);
+  const [compareLinked, setCompareLinked] = useState(true);
+  const [compareZoom, setCompareZoom] = useState(1);
+  const [comparePan, setComparePan] = useState<PanOffset>({ x: 0, y: 0 });
+  const [compareZooms, setCompareZooms] = useState<Record<string, number>>({});
   const [zoomScale, setZoomScale] = useState(1);
   const [isKeyReady, setIsKeyReady] = useState<boolean>(false);
   const [showKeyModal, setShowKeyModal] = useState<boolean>(false);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [queuePaused, setQueuePaused] = useState(false);
+  const [concurrency, setConcurrency] = useState(2);
+  const [processorId, setProcessorId] = useState<ProcessorId>(loadStoredProcessor);
+  const [maxAttempts, setMaxAttempts] = useState<number>(() => parseInt(localStorage.getItem(RETRY_ATTEMPTS_KEY) || '') || DEFAULT_RETRY_POLICY.maxAttempts);
+  const [timeoutSeconds, setTimeoutSeconds] = useState<number>(() => {
+    const stored = localStorage.getItem(TIMEOUT_KEY);
+    return stored === null ? DEFAULT_TIMEOUT_SECONDS : parseInt(stored) || 0;
+  });
+  const [tileGrid, setTileGrid] = useState<number>(() => {
+    const stored = parseInt(localStorage.getItem(TILE_GRID_KEY) || '');
+    return TILE_GRIDS.includes(stored) ? stored : 1;
+  });
+  const [tileStatus, setTileStatus] = useState<TileStatus[] | null>(null);
+  const [cacheMode, setCacheMode] = useState<CacheMode>(() => {
+    const stored = localStorage.getItem(CACHE_MODE_KEY);
+    return stored === 'auto' || stored === 'off' ? stored : 'offer';
+  });
+  // An earlier print matching the current request; reused once it is showing in place of a development
+  const [cachedPrint, setCachedPrint] = useState<{ print: ProcessedImage; reused: boolean } | null>(null);
+  // Files the last import could not take, with the reason for each
+  const [intakeNotice, setIntakeNotice] = useState<{ message: string; rejected: RejectedNegative[] } | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // A roll imported before a key session exists waits here until a key is selected
+  const heldNegativesRef = useRef<File[]>([]);
+  // dragenter and dragleave fire for every child crossed, so the overlay tracks the depth
+  const dragDepthRef = useRef(0);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const queueRef = useRef<DevelopmentQueue | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const historyRequestRef = useRef(0);
+  const bracketRef = useRef<string | null>(null);
+  // Prints being written to an archive keep their blob: URLs until the export is done
+  const exportingRef = useRef<ProcessedImage[]>([]);
 
-  const currentTheme = getThemeForStock(filmStock);
+  const stockProfile = resolveStockProfile(filmStock, customStocks);
+  const currentTheme = stockProfile.theme;
+  const processor = getProcessor(processorId);
+  const isDeveloping = processingState.status === 'checking-key' || processingState.status === 'uploading' || processingState.status === 'processing';
 
   useEffect(() => {
     const root = document.documentElement;
@@ -127,6 +194,78 @@ const App: React.FC = () => {
     root.style.setProperty('--theme-logo-text', currentTheme.logoText);
   }, [filmStock, currentTheme]);
 
+  useEffect(() => {
+    setIso(prev => clampIsoToProfile(prev, stockProfile));
+  }, [stockProfile.isoRange.join(',')]);
+
+  useEffect(() => {
+    localStorage.setItem(PROCESSOR_KEY, processorId);
+  }, [processorId]);
+
+  useEffect(() => {
+    localStorage.setItem(RETRY_ATTEMPTS_KEY, maxAttempts.toString());
+  }, [maxAttempts]);
+
+  useEffect(() => {
+    localStorage.setItem(TIMEOUT_KEY, timeoutSeconds.toString());
+  }, [timeoutSeconds]);
+
+  useEffect(() => {
+    localStorage.setItem(TILE_GRID_KEY, tileGrid.toString());
+  }, [tileGrid]);
+
+  useEffect(() => {
+    localStorage.setItem(CACHE_MODE_KEY, cacheMode);
+  }, [cacheMode]);
+
+  useEffect(() => {
+    localStorage.setItem(LUT_STRENGTH_KEY, lutStrength.toString());
+  }, [lutStrength]);
+
+  // A match only holds for the request it was found for
+  useEffect(() => {
+    setCachedPrint(null);
+  }, [originalBase64, aspectRatio, filmStock, iso, skinDetail, imageSize, lutStrength, processorId, developMask, tileGrid, activeTemplateId, cacheMode]);
+
+  useEffect(() => {
+    storeRecipes(recipes);
+  }, [recipes]);
+
+  useEffect(() => {
+    storePromptTemplates(promptTemplates);
+  }, [promptTemplates]);
+
+  useEffect(() => {
+    storeActiveTemplateId(activeTemplateId);
+  }, [activeTemplateId]);
+
+  useEffect(() => {
+    storeUsageSettings(usageSettings);
+  }, [usageSettings]);
+
+  const historyQueryString = writeHistoryQuery('', historyFilter, historySort);
+
+  // Reload the first sheet whenever the filter changes. Text is typed, so wait for a pause.
+  useEffect(() => {
+    window.history.replaceState(null, '', `${window.location.pathname}${writeHistoryQuery(window.location.search, historyFilter, historySort)}${window.location.hash}`);
+    const request = ++historyRequestRef.current;
+    const timer = setTimeout(async () => {
+      setIsLoadingHistory(true);
+      try {
+        const page = await getHistoryPage(buildHistoryQuery(null));
+        if (request !== historyRequestRef.current) return;
+        setHistory(prev => page.items.map(item => ({ ...item, selected: prev.some(p => p.id === item.id && p.selected) })));
+        setHistoryCursor(page.next);
+        releaseDroppedUrlsRef.current(page.items);
+      } catch (e) {
+        console.error("Failed to load history from IndexedDB", e);
+      } finally {
+        if (request === historyRequestRef.current) setIsLoadingHistory(false);
+      }
+    }, historyFilter.text ? 250 : 0);
+    return () => clearTimeout(timer);
+  }, [historyQueryString, historyVersion]);
+
   useEffect(() => {
     const checkKeyStatus = async () => {
       const sessionActive = sessionStorage.getItem(SESSION_KEY) === 'true';
@@ -135,43 +274,179 @@ const App: React.FC = () => {
     };
     checkKeyStatus();
 
-    const loadHistory = async () => {
+    countHistory().then(setHistoryTotal).catch(e => console.error("Failed to count history in IndexedDB", e));
+
+    const loadLuts = async () => {
       try {
-        const data = await getHistory();
-        setHistory(data.map(item => ({ ...item, selected: false })));
+        const luts = await getStockLuts();
+        setCustomLuts(Object.fromEntries(luts.map(lut => [lut.stock, lut])));
       } catch (e) {
-        console.error("Failed to load history from IndexedDB", e);
+        console.error("Failed to load imported LUTs from IndexedDB", e);
       }
     };
-    loadHistory();
+    loadLuts();
+
+    const loadStocks = async () => {
+      try {
+        setCustomStocks(await getFilmStockProfiles());
+      } catch (e) {
+        console.error("Failed to load custom film stocks from IndexedDB", e);
+      }
+    };
+    loadStocks();
   }, []);
 
-  const buildFinalPrompt = () => {
-    const basePrompt = BASE_PROMPT_TEMPLATE(skinDetail);
-    const grainPrompt = `Add a substantial amount of organic film grain, resembling a ${iso} ISO film to the image, preserving the original aesthetic. The grain should feel raw and authentic.`;
-    const stockPrompt = FILM_STOCK_CHARACTERISTICS[filmStock];
-    return `${basePrompt} ${stockPrompt} ${grainPrompt}`;
+  const currentRecipe = (): DevelopmentRecipe => ({ filmStock, iso, skinDetail, imageSize, lutStrength });
+
+  // The recipe a development is credited to: the one last loaded if the settings still match it,
+  // otherwise any saved recipe with identical settings.
+  const findRecipeFor = (recipe: DevelopmentRecipe) =>
+    recipes.find(saved => saved.id === activeRecipeId && recipesMatch(saved.recipe, recipe))
+      ?? recipes.find(saved => recipesMatch(saved.recipe, recipe));
+
+  const getLutForStock = (stock: FilmStock) =>
+    customLuts[stock] ?? buildStockLut(resolveStockProfile(stock, customStocks).baseStock ?? stock);
+
+  const activeTemplate = findPromptTemplate(promptTemplates, activeTemplateId);
+
+  const promptVariablesFor = (recipe: DevelopmentRecipe) => ({
+    iso: recipe.iso,
+    stock: recipe.filmStock,
+    stockCharacteristics: resolveStockProfile(recipe.filmStock, customStocks).characteristics,
+    skinDetail: recipe.skinDetail
+  });
+
+  const buildFinalPrompt = (recipe: DevelopmentRecipe, template: PromptTemplate = activeTemplate) =>
+    renderPrompt(template, promptVariablesFor(recipe));
+
+  // Stock and LUT are resolved here so editing a stock or replacing its LUT never matches prints made with the old one
+  const cacheKeyFor = (
+    sourceData: string,
+    frameRatio: AspectRatio,
+    recipe: DevelopmentRecipe,
+    engineId: ProcessorId,
+    options: { mask?: PrintMask; tiles?: number },
+    template: PromptTemplate = activeTemplate
+  ) => {
+    const lut = recipe.lutStrength > 0 ? getLutForStock(recipe.filmStock) : null;
+    return developmentKey({
+      sourceData,
+      prompt: buildFinalPrompt(recipe, template),
+      recipe,
+      stock: resolveStockProfile(recipe.filmStock, customStocks),
+      aspectRatio: frameRatio,
+      processor: engineId,
+      lut,
+      mask: options.mask,
+      tiles: options.tiles
+    });
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // Single frames go into the loading slot; several go straight to the development queue.
+  // Uploads, drops, pastes and folder imports all come through here.
+  const loadNegatives = async (files: File[]) => {
+    if (files.length === 0) return;
+    heldNegativesRef.current = [];
+    const { accepted, rejected } = validateNegatives(files);
+    if (accepted.length > 1 && processor.requiresKey && !(await hasActiveKeySession())) {
+      heldNegativesRef.current = accepted;
+      setShowKeyModal(true);
+      setIntakeNotice({ message: `${accepted.length} files are waiting for an API key. They join the queue once a key is selected; dismiss to discard them.`, rejected });
+      return;
+    }
+    const unreadable = accepted.length === 1
+      ? await loadNegative(accepted[0])
+      : accepted.length > 1 ? await enqueueFiles(accepted) : [];
+    const skipped = [...rejected, ...unreadable];
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const result = event.target?.result as string;
-      const img = new Image();
-      img.onload = () => {
-        const detectedRatio = calculateClosestAspectRatio(img.width, img.height);
-        setAspectRatio(detectedRatio);
-        setOriginalBase64(result);
-        setProcessedUrl(null);
-        setProcessingState({ status: 'idle' });
-        setZoomScale(1);
-      };
-      img.src = result;
+    if (accepted.length === 0 && skipped.length === 0) {
+      setIntakeNotice({ message: `No images found. The lab takes ${ACCEPTED_NEGATIVE_LABEL}.`, rejected: [] });
+    } else if (skipped.length > 0) {
+      const loaded = accepted.length - unreadable.length;
+      setIntakeNotice({ message: loaded > 0 ? `Skipped ${skipped.length} of ${skipped.length + loaded} files.` : 'Nothing was loaded.', rejected: skipped });
+    } else {
+      setIntakeNotice(null);
+    }
+  };
+
+  const loadNegativesRef = useRef(loadNegatives);
+  loadNegativesRef.current = loadNegatives;
+
+  // Images copied out of other generators can be pasted anywhere outside a text field
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if ((e.target as HTMLElement | null)?.closest?.('input, textarea, [contenteditable="true"]')) return;
+      const files = filesFromClipboard(e.clipboardData);
+      if (files.length === 0) return;
+      e.preventDefault();
+      loadNegativesRef.current(files);
     };
-    reader.readAsDataURL(file);
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    await loadNegatives(files);
+  };
+
+  const handleFolderUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = filesFromFolder(e.target.files);
+    e.target.value = '';
+    await loadNegatives(files);
+  };
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e.dataTransfer)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFiles(false);
+    try {
+      await loadNegatives(await filesFromDrop(e.dataTransfer));
+    } catch (err) {
+      console.error("Could not read the dropped files", err);
+      setIntakeNotice({ message: 'The dropped files could not be read.', rejected: [] });
+    }
+  };
+
+  // Returns the file as unreadable when it cannot be decoded, instead of throwing.
+  const loadNegative = async (file: File): Promise<RejectedNegative[]> => {
+    try {
+      const { dataUrl, aspectRatio: detectedRatio } = await readImageFile(file);
+      setEmbeddedRecipe(await readPrintMetadata(file));
+      setVariantParent(null);
+      setDevelopMask(null);
+      setAspectRatio(detectedRatio);
+      setOriginalBase64(dataUrl);
+      setProcessedUrl(null);
+      setActiveEntryId(null);
+      setProcessingState({ status: 'idle' });
+      setZoomScale(1);
+      return [];
+    } catch (err) {
+      console.error("Failed to load negative", err);
+      return [{ name: file.name, reason: 'Could not be decoded as an image.' }];
+    }
   };
 
   const triggerDownload = async (dataUrl: string, filename: string) => {
@@ -195,69 +470,680 @@ const App: React.FC = () => {
     }
   };
 
+  // Downloads a print with its recipe and provenance embedded, falling back to the bare image.
+  const downloadPrint = async (item: ProcessedImage) => {
+    const filename = getDownloadFilename(item.filmStock, item.iso, item.timestamp);
+    try {
+      const tagged = URL.createObjectURL(await embedPrintMetadata(item.processedUrl, provenanceFor(item)));
+      await triggerDownload(tagged, filename);
+      URL.revokeObjectURL(tagged);
+    } catch (err) {
+      console.error("Could not embed print metadata", err);
+      await triggerDownload(item.processedUrl, filename);
+    }
+  };
+
   const handleKeyActivation = async () => {
     await window.aistudio.openSelectKey();
     sessionStorage.setItem(SESSION_KEY, 'true');
     setIsKeyReady(true);
     setShowKeyModal(false);
+    if (heldNegativesRef.current.length > 0) await loadNegatives(heldNegativesRef.current);
   };
 
-  const startProcessing = async () => {
-    if (!originalBase64) return;
-    
+  const hasActiveKeySession = async () => {
     const sessionActive = sessionStorage.getItem(SESSION_KEY) === 'true';
-    if (!sessionActive) {
+    if (!sessionActive) return false;
+    return window.aistudio.hasSelectedApiKey();
+  };
+
+  // One engine call with retries. The timeout covers a single call, so each tile of a tiled print gets its own.
+  const runEngine = async (
+    sourceData: string,
+    frameRatio: AspectRatio,
+    recipe: DevelopmentRecipe,
+    engineId: ProcessorId,
+    prompt: string,
+    options: { onRetryWait?: (info: RetryWait) => void; signal?: AbortSignal }
+  ): Promise<string> => {
+    const base64Data = sourceData.split(',')[1];
+    const mimeType = sourceData.split(';')[0].split(':')[1];
+    const engine = getProcessor(engineId);
+    // Every attempt reserves its cost against the cap and is logged, so retries, tiles and concurrent queued jobs all count
+    const trackedDevelop = async () => {
+      // A call stopped before it is sent never reaches the engine, so it is neither reserved nor logged
+      throwIfAborted(signal);
+      const reservation = reserveBudget(engine.requiresKey, usageSettings, recipe.imageSize);
+      const startedAt = Date.now();
+      const log = (code?: LabErrorCode) => {
+        const outcome = outcomeFor(code);
+        setUsageLedger(settleUsage(reservation, {
+          timestamp: startedAt,
+          processor: engineId,
+          size: recipe.imageSize,
+          outcome,
+          errorCode: code,
+          latencyMs: Date.now() - startedAt,
+          cost: estimateCost(usageSettings, engine.requiresKey, recipe.imageSize, outcome)
+        }));
+        setUsageSpend(loadSpend());
+      };
+      try {
+        const url = await engine.develop({ base64Data, mimeType, aspectRatio: frameRatio, prompt, stockProfile: resolveStockProfile(recipe.filmStock, customStocks) }, recipe, signal);
+        log();
+        return url;
+      } catch (err) {
+        log(toLabError(err).code);
+        throw err;
+      }
+    };
+    const { signal, dispose } = withTimeout(options.signal, timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined);
+    try {
+      const resultUrl = await withRetry(
+        trackedDevelop,
+        { ...DEFAULT_RETRY_POLICY, maxAttempts },
+        options.onRetryWait,
+        signal
+      );
+      throwIfAborted(signal);
+      return resultUrl;
+    } finally {
+      dispose();
+    }
+  };
+
+  // Develops a single frame with the given recipe and files the print in the lab history.
+  // Nothing is saved when the development is cancelled or times out.
+  const developFrame = async (
+    sourceUrl: string,
+    frameRatio: AspectRatio,
+    recipe: DevelopmentRecipe,
+    engineId: ProcessorId,
+    options: {
+      onRetryWait?: (info: RetryWait) => void;
+      signal?: AbortSignal;
+      lineage?: PrintLineage;
+      mask?: PrintMask;
+      tiles?: number;
+      onTile?: (index: number, status: TileStatus) => void;
+      templateId?: string;
+    } = {}
+  ): Promise<ProcessedImage> => {
+    const sourceData = await toDataUrl(sourceUrl);
+    // A requested version that has since been deleted falls back to the active template
+    const template = (options.templateId && [DEFAULT_PROMPT_TEMPLATE, ...promptTemplates].find(saved => saved.id === options.templateId)) || activeTemplate;
+    const finalPrompt = buildFinalPrompt(recipe, template);
+    const tiles = options.tiles && options.tiles > 1 ? options.tiles : undefined;
+    const cacheKey = await cacheKeyFor(sourceData, frameRatio, recipe, engineId, { mask: options.mask, tiles }, template).catch(err => {
+      console.warn("Could not hash this development for reuse", err);
+      return undefined;
+    });
+    let resultUrl = tiles
+      ? await developTiled(sourceData, {
+          grid: tiles,
+          develop: tileUrl => runEngine(tileUrl, frameRatio, recipe, engineId, `${finalPrompt} ${TILE_PROMPT_NOTE}`, options),
+          onTile: options.onTile,
+          signal: options.signal
+        })
+      : await runEngine(sourceData, frameRatio, recipe, engineId, finalPrompt, options);
+
+    // Composite before grading so masked and unmasked regions share the same stock look
+    if (options.mask) {
+      resultUrl = await compositeWithMask(sourceData, resultUrl, options.mask);
+    }
+
+    // Measured ahead of the LUT, which changes color on purpose. A failed measurement never fails the print.
+    const drift = await measureDrift(sourceData, resultUrl).catch(err => {
+      console.warn("Could not measure drift for this print", err);
+      return undefined;
+    });
+
+    const lut = recipe.lutStrength > 0 ? getLutForStock(recipe.filmStock) : null;
+    if (lut) {
+      resultUrl = await applyLutToImage(resultUrl, lut, recipe.lutStrength / 100);
+    }
+
+    const sourceRecipe = findRecipeFor(recipe);
+    const newEntry: ProcessedImage = {
+      id: createEntryId(),
+      originalUrl: sourceData,
+      processedUrl: resultUrl,
+      timestamp: Date.now(),
+      prompt: finalPrompt,
+      size: recipe.imageSize,
+      aspectRatio: frameRatio,
+      filmStock: recipe.filmStock,
+      iso: recipe.iso,
+      skinDetail: recipe.skinDetail,
+      processor: engineId,
+      grade: lut ? { lut: lut.title, strength: recipe.lutStrength } : undefined,
+      recipe: sourceRecipe ? { id: sourceRecipe.id, name: sourceRecipe.name } : undefined,
+      mask: options.mask,
+      tiles,
+      drift,
+      promptTemplate: templateRef(template),
+      cacheKey,
+      ...options.lineage,
+      selected: false
+    };
+
+    await saveHistoryItem(newEntry);
+    return newEntry;
+  };
+
+  // Only uses functional updates, so the queue can hold on to it across renders.
+  const filePrint = (entry: ProcessedImage) => {
+    setHistory(prev => [entry, ...prev]);
+    setHistoryTotal(prev => prev + 1);
+  };
+
+  // Every sort pages from its own index; `where` applies the rest of the filter to the records walked.
+  const buildHistoryQuery = (after: HistoryCursor | null): HistoryQuery => {
+    const filter = historyFilter;
+    return {
+      limit: HISTORY_PAGE_SIZE,
+      after,
+      filmStock: filter.filmStock,
+      iso: filter.iso,
+      sort: historySort,
+      where: isFilterActive(filter) ? record => matchesHistoryFilter(record, filter) : undefined
+    };
+  };
+
+  const loadOlderPrints = async () => {
+    if (!historyCursor || isLoadingHistory) return;
+    const request = historyRequestRef.current;
+    setIsLoadingHistory(true);
+    try {
+      const page = await getHistoryPage(buildHistoryQuery(historyCursor));
+      if (request !== historyRequestRef.current) return;
+      setHistory(prev => [...prev, ...page.items.filter(item => !prev.some(p => p.id === item.id))]);
+      setHistoryCursor(page.next);
+    } catch (e) {
+      console.error("Failed to load older prints from IndexedDB", e);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  const developFrameRef = useRef(developFrame);
+  developFrameRef.current = developFrame;
+
+  // Frees the blob: URLs of prints that left the contact sheet, keeping any the lab is still showing
+  const releaseDroppedUrls = (sheet: ProcessedImage[]) => {
+    const held = [...sheet, ...exportingRef.current, variantParent, cachedPrint?.print]
+      .flatMap(item => item ? [item.originalUrl, item.processedUrl] : []);
+    releaseObjectUrls([...held, originalBase64, processedUrl]);
+  };
+
+  const releaseDroppedUrlsRef = useRef(releaseDroppedUrls);
+  releaseDroppedUrlsRef.current = releaseDroppedUrls;
+
+  useEffect(() => () => releaseObjectUrls([]), []);
+
+  const getQueue = () => {
+    if (!queueRef.current) {
+      queueRef.current = createDevelopmentQueue({
+        concurrency,
+        develop: async (job) => {
+          try {
+            return await developFrameRef.current(job.originalUrl, job.aspectRatio, job.recipe, job.processorId, { lineage: job.lineage, mask: job.mask, tiles: job.tiles, templateId: job.promptTemplateId });
+          } catch (err) {
+            const code = toLabError(err).code;
+            if (code === 'KEY_RESET') {
+              // Hold the rest of the roll until a working key is linked again
+              sessionStorage.removeItem(SESSION_KEY);
+              queueRef.current?.pause();
+              setQueuePaused(true);
+              setShowKeyModal(true);
+            } else if (code === 'BUDGET') {
+              // The rest of the roll would be blocked too; hold it until the cap is raised
+              queueRef.current?.pause();
+              setQueuePaused(true);
+            }
+            throw err;
+          }
+        },
+        onUpdate: (jobs) => {
+          setBatchJobs(jobs);
+          settleBracket(jobs);
+        },
+        // Bracket frames arrive pre-selected for the comparison
+        onDeveloped: (job, entry) => filePrint(job.bracketId ? { ...entry, selected: true } : entry)
+      });
+    }
+    return queueRef.current;
+  };
+
+  // Returns the files that could not be decoded; the rest join the queue. loadNegatives checks the key session first.
+  const enqueueFiles = async (files: File[]): Promise<RejectedNegative[]> => {
+    const recipe = currentRecipe();
+    const jobs: BatchJob[] = [];
+    const unreadable: RejectedNegative[] = [];
+    for (const file of files) {
+      try {
+        const { dataUrl, aspectRatio: detectedRatio } = await readImageFile(file);
+        jobs.push({
+          id: createEntryId(),
+          fileName: file.name,
+          originalUrl: dataUrl,
+          aspectRatio: detectedRatio,
+          recipe,
+          processorId,
+          status: 'queued'
+        });
+      } catch (err) {
+        console.error("Skipping unreadable negative", err);
+        unreadable.push({ name: file.name, reason: 'Could not be decoded as an image.' });
+      }
+    }
+    getQueue().enqueue(jobs);
+    return unreadable;
+  };
+
+  // Opens the comparison once every frame of the running bracket has come out of the tank.
+  const settleBracket = (jobs: BatchJob[]) => {
+    const bracketId = bracketRef.current;
+    if (!bracketId) return;
+    const frames = jobs.filter(job => job.bracketId === bracketId);
+    if (frames.some(job => job.status === 'queued' || job.status === 'developing')) return;
+    bracketRef.current = null;
+    if (frames.some(job => job.status === 'done')) {
+      setCompareMode(true);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    }
+  };
+
+  const developBracket = async (frames: { filmStock: FilmStock; iso: ISOValue }[]) => {
+    if (!originalBase64 || frames.length === 0) return;
+    if (processor.requiresKey && !(await hasActiveKeySession())) {
       setShowKeyModal(true);
       return;
     }
 
-    setProcessingState({ status: 'checking-key', message: 'Verifying Emulsion Engine...' });
-    
-    const hasKey = await window.aistudio.hasSelectedApiKey();
-    if (!hasKey) {
-      setShowKeyModal(true);
-      setProcessingState({ status: 'idle' });
+    const bracketId = createEntryId();
+    const recipe = currentRecipe();
+    const sourceUrl = await toDataUrl(originalBase64);
+    bracketRef.current = bracketId;
+    setCompareMode(false);
+    setHistory(prev => prev.map(item => item.selected ? { ...item, selected: false } : item));
+    getQueue().enqueue(frames.map(frame => ({
+      id: createEntryId(),
+      fileName: `Bracket: ${frame.filmStock} @ ${frame.iso}`,
+      originalUrl: sourceUrl,
+      aspectRatio,
+      recipe: { ...recipe, filmStock: frame.filmStock, iso: frame.iso },
+      processorId,
+      lineage: variantParent ? lineageOf(variantParent) : undefined,
+      mask: developMask ?? undefined,
+      bracketId,
+      status: 'queued' as const
+    })));
+  };
+
+  const toggleQueuePause = () => {
+    const queue = getQueue();
+    if (queue.isPaused()) {
+      queue.resume();
+    } else {
+      queue.pause();
+    }
+    setQueuePaused(queue.isPaused());
+  };
+
+  const handleConcurrencyChange = (value: number) => {
+    setConcurrency(value);
+    getQueue().setConcurrency(value);
+  };
+
+  // Newest print developed from the same negative with the same settings. A failed lookup counts as no match.
+  const findIdenticalPrint = async (): Promise<ProcessedImage | undefined> => {
+    if (!originalBase64) return undefined;
+    try {
+      const sourceData = await toDataUrl(originalBase64);
+      const key = await cacheKeyFor(sourceData, aspectRatio, currentRecipe(), processorId, { mask: developMask ?? undefined, tiles: tileGrid > 1 ? tileGrid : undefined });
+      return await findHistoryByCacheKey(key);
+    } catch (err) {
+      console.warn("Could not look for an identical print", err);
+      return undefined;
+    }
+  };
+
+  const showCachedPrint = (print: ProcessedImage) => {
+    setProcessedUrl(print.processedUrl);
+    setActiveEntryId(print.id);
+    setCachedPrint({ print, reused: true });
+    setProcessingState({ status: 'idle' });
+    setZoomScale(1);
+  };
+
+  // Pass force to develop even when an identical print exists, e.g. to get a fresh variation.
+  const startProcessing = async (force = false) => {
+    if (!originalBase64) return;
+
+    if (!force && cacheMode !== 'off') {
+      const match = await findIdenticalPrint();
+      if (match) {
+        if (cacheMode === 'auto') showCachedPrint(match);
+        else setCachedPrint({ print: match, reused: false });
+        return;
+      }
+    }
+    setCachedPrint(null);
+
+    try {
+      assertWithinBudget(processor.requiresKey, usageSettings, imageSize);
+    } catch (err) {
+      const labError = toLabError(err);
+      setProcessingState({ status: 'error', message: labError.message, error: labError.toInfo() });
       return;
     }
     
+    if (processor.requiresKey) {
+      const sessionActive = sessionStorage.getItem(SESSION_KEY) === 'true';
+      if (!sessionActive) {
+        setShowKeyModal(true);
+        return;
+      }
+
+      setProcessingState({ status: 'checking-key', message: 'Verifying Emulsion Engine...' });
+      
+      const hasKey = await window.aistudio.hasSelectedApiKey();
+      if (!hasKey) {
+        setShowKeyModal(true);
+        setProcessingState({ status: 'idle' });
+        return;
+      }
+    }
+    
+    const controller = new AbortController();
+    abortRef.current = controller;
     setProcessingState({ status: 'processing', message: `Developing as ${filmStock} at ISO ${iso}...` });
+    setTileStatus(tileGrid > 1 ? Array(tileGrid * tileGrid).fill('pending') : null);
     try {
-      const base64Data = originalBase64.split(',')[1];
-      const mimeType = originalBase64.split(';')[0].split(':')[1];
-      const finalPrompt = buildFinalPrompt();
-      const resultUrl = await processImage(base64Data, mimeType, finalPrompt, imageSize, aspectRatio);
-      
-      const newEntry: ProcessedImage = {
-        id: Date.now().toString(),
-        originalUrl: originalBase64,
-        processedUrl: resultUrl,
-        timestamp: Date.now(),
-        prompt: finalPrompt,
-        size: imageSize,
-        aspectRatio: aspectRatio,
-        filmStock: filmStock,
-        iso: iso,
-        skinDetail: skinDetail,
-        selected: false
-      };
+      const newEntry = await developFrame(originalBase64, aspectRatio, currentRecipe(), processorId, {
+        signal: controller.signal,
+        lineage: variantParent ? lineageOf(variantParent) : undefined,
+        mask: developMask ?? undefined,
+        tiles: tileGrid,
+        onTile: (index, status) => {
+          setTileStatus(prev => prev && prev.map((value, i) => i === index ? status : value));
+          if (status === 'developing') {
+            setProcessingState({ status: 'processing', message: `Developing tile ${index + 1} of ${tileGrid * tileGrid} as ${filmStock} at ISO ${iso}...` });
+          }
+        },
+        onRetryWait: ({ attempt, maxAttempts: total, secondsLeft, error }) => {
+          setProcessingState({
+            status: 'processing',
+            message: `${error.message} Retrying in ${secondsLeft}s (attempt ${attempt + 1} of ${total})...`
+          });
+        }
+      });
       
-      setProcessedUrl(resultUrl);
-      await saveHistoryItem(newEntry);
-      setHistory(prev => [newEntry, ...prev]);
+      setProcessedUrl(newEntry.processedUrl);
+      setActiveEntryId(newEntry.id);
+      filePrint(newEntry);
+      // Keep iterating on the same lineage: the next attempt branches from this one
+      if (variantParent) setVariantParent(newEntry);
       setProcessingState({ status: 'idle' });
       setZoomScale(1);
-      setIsKeyReady(true);
-    } catch (err: any) {
-      if (err.message === "KEY_RESET_REQUIRED") {
+      if (processor.requiresKey) setIsKeyReady(true);
+    } catch (err) {
+      const labError = toLabError(err);
+      if (labError.code === 'KEY_RESET') {
         sessionStorage.removeItem(SESSION_KEY);
         setShowKeyModal(true);
         setProcessingState({ status: 'idle' });
         return;
       }
-      setProcessingState({ status: 'error', message: err.message || 'Chemical imbalance detected.' });
+      if (labError.code === 'CANCELLED') {
+        setProcessingState({ status: 'cancelled', message: labError.why });
+        return;
+      }
+      setProcessingState({ status: 'error', message: labError.message, error: labError.toInfo() });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setTileStatus(null);
     }
   };
 
+  const cancelProcessing = () => {
+    abortRef.current?.abort(createCancelledError());
+  };
+
+  // Renders grain locally onto the current print (or its original) and files the result as a new print.
+  const regrain = async (source: GrainPass['source'], targetIso: ISOValue) => {
+    const base = history.find(item => item.id === activeEntryId);
+    const sourceRef = source === 'developed' ? processedUrl : originalBase64;
+    if (!sourceRef || !originalBase64) return;
+
+    setIsGraining(true);
+    try {
+      // Seeds hash the image bytes, so resolve stored prints to their data URL first
+      const sourceUrl = await toDataUrl(sourceRef);
+      // The pass belongs to the print it was run on, so its stock and frame come from that print
+      const stock = base?.filmStock ?? filmStock;
+      const profile = resolveStockProfile(stock, customStocks);
+      const seed = grainSeed(sourceUrl, stock, targetIso);
+      const grainedUrl = await applyGrain(sourceUrl, profile.baseStock ?? stock, targetIso, { seed, character: profile.grain });
+      const newEntry: ProcessedImage = {
+        id: createEntryId(),
+        originalUrl: await toDataUrl(originalBase64),
+        processedUrl: grainedUrl,
+        timestamp: Date.now(),
+        prompt: source === 'developed' && base
+          ? `Local grain pass: ${stock} at ISO ${targetIso}, over a print developed at ISO ${base.iso}.`
+          : `Local grain pass: ${stock} at ISO ${targetIso}.`,
+        size: base?.size ?? imageSize,
+        aspectRatio: base?.aspectRatio ?? aspectRatio,
+        filmStock: stock,
+        iso: targetIso,
+        skinDetail: base?.skinDetail ?? skinDetail,
+        processor: source === 'developed' && base ? base.processor : 'local',
+        grainPass: { source, filmStock: stock, iso: targetIso, seed },
+        ...(base ? lineageOf(base) : {}),
+        selected: false
+      };
+
+      await saveHistoryItem(newEntry);
+      filePrint(newEntry);
+      setProcessedUrl(grainedUrl);
+      setActiveEntryId(newEntry.id);
+      setIso(targetIso);
+    } catch (err) {
+      console.error("Local grain pass failed", err);
+    } finally {
+      setIsGraining(false);
+    }
+  };
+
+  const importCubeLut = async (file: File) => {
+    setLutError(null);
+    try {
+      const parsed = parseCubeFile(await file.text(), file.name.replace(/\.cube$/i, ''));
+      const stored: StoredLut = { ...parsed, stock: filmStock };
+      await saveStockLut(stored);
+      setCustomLuts(prev => ({ ...prev, [filmStock]: stored }));
+    } catch (err) {
+      setLutError(err instanceof Error && err.message ? err.message : 'The .cube file could not be read.');
+    }
+  };
+
+  const exportCubeLut = () => {
+    const lut = getLutForStock(filmStock);
+    const slug = filmStock.replace(/[()&]/g, '').trim().replace(/\s+/g, '-');
+    triggerDownload(`data:text/plain;charset=utf-8,${encodeURIComponent(serializeCube(lut))}`, `${slug}.cube`);
+  };
+
+  const resetCubeLut = async () => {
+    setLutError(null);
+    await deleteStockLut(filmStock);
+    setCustomLuts(prev => {
+      const next = { ...prev };
+      delete next[filmStock];
+      return next;
+    });
+  };
+
+  const saveCustomStock = async (profile: FilmStockProfile, previousName?: FilmStock) => {
+    if (previousName && previousName !== profile.name) {
+      await deleteFilmStockProfile(previousName);
+      // Carry an imported LUT over to the renamed stock
+      const lut = customLuts[previousName];
+      if (lut) {
+        const moved: StoredLut = { ...lut, stock: profile.name };
+        await saveStockLut(moved);
+        await deleteStockLut(previousName);
+        setCustomLuts(prev => {
+          const next = { ...prev, [profile.name]: moved };
+          delete next[previousName];
+          return next;
+        });
+      }
+    }
+    await saveFilmStockProfile(profile);
+    setCustomStocks(prev => [...prev.filter(p => p.name !== profile.name && p.name !== previousName), profile]);
+    setFilmStock(profile.name);
+    setEditingStock(null);
+  };
+
+  const deleteCustomStock = async (name: FilmStock) => {
+    // Its imported LUT goes too, so a later stock with the same name starts from its base grade
+    await Promise.all([deleteFilmStockProfile(name), deleteStockLut(name)]);
+    setCustomStocks(prev => prev.filter(p => p.name !== name));
+    setCustomLuts(prev => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+    if (filmStock === name) setFilmStock('Kodak Portra 400');
+    setEditingStock(null);
+  };
+
+  const saveRecipe = (name: string) => {
+    const saved: SavedRecipe = { id: createEntryId(), name, recipe: currentRecipe(), createdAt: Date.now() };
+    setRecipes(prev => [...prev, saved]);
+    setActiveRecipeId(saved.id);
+    setRecipeError(null);
+  };
+
+  const applyRecipe = (recipe: DevelopmentRecipe) => {
+    setFilmStock(recipe.filmStock);
+    setIso(recipe.iso);
+    setSkinDetail(recipe.skinDetail);
+    setImageSize(recipe.imageSize);
+    setLutStrength(recipe.lutStrength);
+  };
+
+  const loadRecipe = (saved: SavedRecipe) => {
+    applyRecipe(saved.recipe);
+    setActiveRecipeId(saved.id);
+    setRecipeError(null);
+  };
+
+  const restoreEmbeddedRecipe = () => {
+    if (!embeddedRecipe) return;
+    applyRecipe(embeddedRecipe.recipe);
+    setActiveRecipeId(recipes.find(saved => recipesMatch(saved.recipe, embeddedRecipe.recipe))?.id ?? null);
+    setEmbeddedRecipe(null);
+  };
+
+  const clearUsageLedger = () => {
+    if (!window.confirm("Clear the usage ledger? The call history is erased; spending toward the budget caps is kept.")) return;
+    clearUsage();
+    setUsageLedger([]);
+  };
+
+  const savePromptTemplate = (draft: Pick<PromptTemplate, 'body' | 'skinBands'>, name: string) => {
+    const created = saveTemplateVersion(promptTemplates, draft, name);
+    setPromptTemplates(prev => [...prev, created]);
+    setActiveTemplateId(created.id);
+  };
+
+  const deletePromptTemplate = (id: string) => {
+    setPromptTemplates(prev => prev.filter(template => template.id !== id));
+    if (activeTemplateId === id) setActiveTemplateId(DEFAULT_PROMPT_TEMPLATE.id);
+  };
+
+  const deleteRecipe = (id: string) => {
+    setRecipes(prev => prev.filter(saved => saved.id !== id));
+    if (activeRecipeId === id) setActiveRecipeId(null);
+  };
+
+  const exportRecipes = () => {
+    triggerDownload(`data:application/json;charset=utf-8,${encodeURIComponent(serializeRecipes(recipes))}`, 'desynthesize-recipes.json');
+  };
+
+  const importRecipes = async (file: File) => {
+    setRecipeError(null);
+    try {
+      const imported = parseRecipeImport(await file.text());
+      setRecipes(prev => mergeRecipes(prev, imported));
+    } catch (err) {
+      setRecipeError(err instanceof Error && err.message ? err.message : 'The recipe file could not be read.');
+    }
+  };
+
+  const viewPrint = (item: ProcessedImage) => {
+    setOriginalBase64(item.originalUrl);
+    setProcessedUrl(item.processedUrl);
+    setActiveEntryId(item.id);
+    setAspectRatio(item.aspectRatio);
+    setImageSize(item.size);
+    setFilmStock(item.filmStock);
+    setIso(item.iso);
+    setSkinDetail(item.skinDetail || 50);
+    setLutStrength(item.grade?.strength ?? 0);
+    setActiveRecipeId(item.recipe?.id ?? null);
+    setEmbeddedRecipe(null);
+    setVariantParent(null);
+    setDevelopMask(item.mask ?? null);
+    setTileGrid(item.tiles ?? 1);
+    setZoomScale(1);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Loads the print into the lab so its settings can be adjusted; the next development is filed as its variant.
+  const developVariant = (item: ProcessedImage, e: React.MouseEvent) => {
+    e.stopPropagation();
+    viewPrint(item);
+    setVariantParent(item);
+  };
+
+  // Re-runs a print's source through the queue with the exact recipe and engine it was developed with.
+  const redevelopPrint = async (item: ProcessedImage, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const engineId = item.processor ?? 'gemini';
+    if (getProcessor(engineId).requiresKey && !(await hasActiveKeySession())) {
+      setShowKeyModal(true);
+      return;
+    }
+    getQueue().enqueue([{
+      id: createEntryId(),
+      fileName: `Re-develop: ${item.filmStock} @ ${item.iso}`,
+      originalUrl: await toDataUrl(item.originalUrl),
+      aspectRatio: item.aspectRatio,
+      recipe: recipeFromPrint(item),
+      processorId: engineId,
+      lineage: lineageOf(item),
+      mask: item.mask,
+      tiles: item.tiles,
+      // Prints from before templates were versioned used the built-in prompt
+      promptTemplateId: item.promptTemplate?.id ?? DEFAULT_PROMPT_TEMPLATE.id,
+      status: 'queued'
+    }]);
+    setExpandedStacks(prev => new Set(prev).add(item.stackId ?? item.id));
+  };
+
+  const toggleStack = (stackId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setExpandedStacks(prev => {
+      const next = new Set(prev);
+      if (!next.delete(stackId)) next.add(stackId);
+      return next;
+    });
+  };
+
   const toggleSelection = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     setHistory(prev => prev.map(item => item.id === id ? { ...item, selected: !item.selected } : item));
@@ -267,29 +1153,89 @@ const App: React.FC = () => {
     e.stopPropagation();
     await deleteHistoryItemFromDB(id);
     setHistory(prev => prev.filter(item => item.id !== id));
+    setHistoryTotal(prev => Math.max(prev - 1, 0));
+  };
+
+  // Exports the selected prints, or the whole stored history when nothing is selected.
+  const exportArchive = async () => {
+    const selected = history.filter(item => item.selected);
+    setIsArchiving(true);
+    setArchiveStatus(null);
+    try {
+      const items = selected.length > 0 ? selected : await getHistory();
+      exportingRef.current = items;
+      const archive = await exportLabArchive(items);
+      const url = URL.createObjectURL(archive);
+      await triggerDownload(url, `DeSynthesize_Archive_${new Date().toISOString().slice(0, 10)}.zip`);
+      URL.revokeObjectURL(url);
+      setArchiveStatus({ message: `Archived ${items.length} print${items.length === 1 ? '' : 's'}.` });
+    } catch (err) {
+      setArchiveStatus({ message: err instanceof Error && err.message ? err.message : 'The archive could not be written.', error: true });
+    } finally {
+      exportingRef.current = [];
+      setIsArchiving(false);
+    }
   };
 
+  const importArchive = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsArchiving(true);
+    setArchiveStatus(null);
+    try {
+      const { imported, renamed, duplicates } = await importLabArchive(file, createEntryId);
+      const notes = [renamed && `${renamed} renamed to avoid id clashes`, duplicates && `${duplicates} already in the lab`].filter(Boolean);
+      setArchiveStatus({ message: `Imported ${imported} print${imported === 1 ? '' : 's'}${notes.length ? ` (${notes.join(', ')})` : ''}.` });
+      setHistoryTotal(await countHistory());
+      setHistoryVersion(prev => prev + 1);
+    } catch (err) {
+      setArchiveStatus({ message: err instanceof Error && err.message ? err.message : 'The archive could not be read.', error: true });
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  const visibleHistory = history.filter(item => matchesHistoryFilter(item, historyFilter)).sort(compareHistory(historySort));
+  const filteringHistory = isFilterActive(historyFilter);
+  const visibleStacks = groupIntoStacks<ProcessedImage>(visibleHistory);
+
+  const clampZoom = (value: number) => Math.min(Math.max(value, 1), 4);
+
   const handleZoom = (delta: number) => {
-    setZoomScale(prev => Math.min(Math.max(prev + delta, 1), 4));
-  };
-
-  const parseErrorMessage = (msg: string) => {
-    if (msg.startsWith("REJECTION:")) {
-      const parts = msg.split("WHY:");
-      const main = parts[0].replace("REJECTION:", "").trim();
-      const whyAndRemedy = parts[1] ? parts[1].split("REMEDY:") : [null, null];
-      return {
-        type: 'rejection',
-        main: main,
-        why: whyAndRemedy[0]?.trim(),
-        remedy: whyAndRemedy[1]?.trim()
-      };
+    setZoomScale(prev => clampZoom(prev + delta));
+  };
+
+  // Linked prints share one zoom and pan; unlinked ones each keep their own, starting from the shared zoom
+  const handleCompareZoom = (delta: number, id?: string) => {
+    if (id) {
+      setCompareZooms(prev => ({ ...prev, [id]: clampZoom((prev[id] ?? compareZoom) + delta) }));
+    } else {
+      setCompareZoom(prev => clampZoom(prev + delta));
     }
-    return { type: 'error', main: msg };
+  };
+
+  const toggleCompareLink = () => {
+    setCompareLinked(prev => !prev);
+    setCompareZooms({});
   };
 
   return (
-    <div className="min-h-screen flex flex-col items-center bg-kodak-dark text-kodak-cream selection:bg-kodak-yellow selection:text-kodak-dark theme-transition">
+    <div
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      className="min-h-screen flex flex-col items-center bg-kodak-dark text-kodak-cream selection:bg-kodak-yellow selection:text-kodak-dark theme-transition"
+    >
+      {isDraggingFiles && (
+        <div className="fixed inset-4 z-[90] pointer-events-none flex items-center justify-center border-8 border-dashed border-kodak-yellow bg-kodak-dark/80 theme-transition">
+          <div className="text-center space-y-2">
+            <p className="font-display text-6xl text-kodak-yellow uppercase tracking-tighter theme-transition">Release to Load</p>
+            <p className="text-[10px] font-black text-kodak-red uppercase tracking-[0.3em] theme-transition">One frame loads the slot // Several or a folder join the queue</p>
+          </div>
+        </div>
+      )}
       {/* Key Activation Modal */}
       {showKeyModal && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/90 backdrop-blur-sm animate-in fade-in duration-300">
@@ -337,6 +1283,25 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {showMaskEditor && originalBase64 && (
+        <MaskEditor
+          imageUrl={originalBase64}
+          initial={developMask}
+          onSave={(mask) => { setDevelopMask(mask); setShowMaskEditor(false); }}
+          onClose={() => setShowMaskEditor(false)}
+        />
+      )}
+
+      {editingStock && (
+        <FilmStockEditor
+          initial={editingStock}
+          takenNames={[...BUILT_IN_PROFILES, ...customStocks].map(p => p.name)}
+          onSave={saveCustomStock}
+          onDelete={deleteCustomStock}
+          onClose={() => setEditingStock(null)}
+        />
+      )}
+
       <div className="w-full max-w-7xl px-4 py-8 md:py-12 space-y-12">
         <header className="flex flex-col md:flex-row md:items-end justify-between gap-6 border-b-4 border-kodak-red pb-8 theme-transition">
           <div className="space-y-1">
@@ -344,7 +1309,7 @@ const App: React.FC = () => {
               <div 
                 className="w-14 h-14 flex items-center justify-center rotate-3 border-4 border-kodak-red shadow-[-4px_4px_0px_var(--theme-brand)] theme-transition cursor-help"
                 style={{ backgroundColor: 'var(--theme-logo-bg)' }}
-                title={`Emulsion Core Brand: ${filmStock.includes('Fuji') ? 'Fujifilm' : filmStock.includes('Cinestill') ? 'Cinestill' : 'Kodak'}`}
+                title={`Emulsion Core Brand: ${stockProfile.manufacturer}`}
               >
                 <span 
                   className="font-display text-4xl leading-none theme-transition"
@@ -398,10 +1363,10 @@ const App: React.FC = () => {
                 <label className="text-[10px] font-black text-kodak-yellow uppercase tracking-[0.2em] theme-transition">Film Loading Slot</label>
                 <div 
                   onClick={() => fileInputRef.current?.click()} 
-                  title="Click to select an AI-generated image (JPG, PNG) for developing"
+                  title={`Click, drop or paste an AI-generated image (${ACCEPTED_NEGATIVE_LABEL}) for developing. Select several to queue a whole roll.`}
                   className={`group relative flex flex-col items-center justify-center aspect-video border-4 border-dashed rounded-none cursor-pointer transition-all duration-300 ${originalBase64 ? 'border-kodak-yellow bg-kodak-yellow/10' : 'border-kodak-red/30 hover:border-kodak-yellow hover:bg-kodak-yellow/5'} theme-transition`}
                 >
-                  <input type="file" ref={fileInputRef} onChange={handleFileUpload} className="hidden" accept="image/*" />
+                  <input type="file" ref={fileInputRef} onChange={handleFileUpload} className="hidden" accept={Object.keys(ACCEPTED_NEGATIVE_TYPES).join(',')} multiple />
                   {originalBase64 ? (
                     <img src={originalBase64} alt="Preview" className="w-full h-full object-cover opacity-60" />
                   ) : (
@@ -418,25 +1383,158 @@ const App: React.FC = () => {
                     </div>
                   )}
                 </div>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-[9px] font-black text-kodak-yellow/40 uppercase tracking-widest theme-transition">Drop or {navigator.platform.includes('Mac') ? '⌘' : 'Ctrl'}+V to Paste</span>
+                  <button
+                    onClick={() => folderInputRef.current?.click()}
+                    title="Queue every image in a folder, in file name order"
+                    className="text-[10px] font-black text-kodak-yellow hover:text-kodak-red uppercase tracking-widest transition-colors theme-transition"
+                  >
+                    Import Folder
+                  </button>
+                  {/* Kept outside the slot so its click does not bubble into the file picker */}
+                  <input
+                    type="file"
+                    ref={el => {
+                      folderInputRef.current = el;
+                      if (el) el.webkitdirectory = true;
+                    }}
+                    onChange={handleFolderUpload}
+                    className="hidden"
+                  />
+                </div>
+                {intakeNotice && (
+                  <div className="p-2 space-y-1 bg-kodak-dark border-2 border-kodak-red/60 theme-transition">
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">{intakeNotice.message}</p>
+                      <button
+                        onClick={() => {
+                          heldNegativesRef.current = [];
+                          setIntakeNotice(null);
+                        }}
+                        title="Dismiss"
+                        className="text-[10px] font-black text-kodak-yellow/40 hover:text-kodak-yellow uppercase tracking-widest transition-colors"
+                      >
+                        ×
+                      </button>
+                    </div>
+                    {intakeNotice.rejected.slice(0, 5).map((item, index) => (
+                      <p key={`${item.name}-${index}`} className="text-[10px] text-kodak-cream/70 leading-relaxed theme-transition">
+                        <span className="font-black text-kodak-yellow">{item.name}</span>: {item.reason}
+                      </p>
+                    ))}
+                    {intakeNotice.rejected.length > 5 && (
+                      <p className="text-[10px] font-black text-kodak-cream/50 uppercase tracking-widest theme-transition">And {intakeNotice.rejected.length - 5} more</p>
+                    )}
+                  </div>
+                )}
+                {originalBase64 && (
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest theme-transition" title="A mask limits which regions take the developed pixels">
+                      Mask: <span className="text-kodak-red">{developMask ? `Painted // ${developMask.feather}px feather` : 'Full Frame'}</span>
+                    </span>
+                    <div className="flex gap-3">
+                      {developMask && (
+                        <button
+                          onClick={() => setDevelopMask(null)}
+                          title="Develop the full frame again"
+                          className="text-[10px] font-black text-kodak-red hover:text-kodak-yellow uppercase tracking-widest transition-colors theme-transition"
+                        >
+                          Clear
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setShowMaskEditor(true)}
+                        title="Paint the regions (typically skin) that should take the developed pixels; the rest keeps the original"
+                        className="text-[10px] font-black text-kodak-yellow hover:text-kodak-red uppercase tracking-widest transition-colors theme-transition"
+                      >
+                        {developMask ? 'Edit Mask' : 'Paint Mask'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {embeddedRecipe && (
+                  <div className="p-3 bg-kodak-dark border-2 border-kodak-yellow space-y-2 animate-in fade-in duration-300 theme-transition">
+                    <p className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest theme-transition">Recipe found in this print</p>
+                    <p className="text-[10px] font-bold text-kodak-cream/70 uppercase tracking-widest theme-transition">
+                      {embeddedRecipe.recipeName && <span className="text-kodak-yellow">{embeddedRecipe.recipeName} // </span>}
+                      {embeddedRecipe.recipe.filmStock} // ISO {embeddedRecipe.recipe.iso} // {embeddedRecipe.recipe.skinDetail}% Detail // {embeddedRecipe.recipe.imageSize}
+                    </p>
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        onClick={restoreEmbeddedRecipe}
+                        title="Load the stock, ISO, skin detail, resolution and grade this print was developed with"
+                        className="py-2 bg-kodak-red text-kodak-yellow font-display text-lg border-b-4 border-black/20 active:translate-y-1 active:border-b-0 transition-all theme-transition"
+                      >
+                        Restore Recipe
+                      </button>
+                      <button
+                        onClick={() => setEmbeddedRecipe(null)}
+                        title="Keep the current lab settings"
+                        className="py-2 bg-kodak-dark text-kodak-yellow font-display text-lg border-2 border-kodak-red/50 hover:border-kodak-red transition-all theme-transition"
+                      >
+                        Dismiss
+                      </button>
+                    </div>
+                  </div>
+                )}
               </div>
 
               <div className="space-y-5 pt-4 border-t-2 border-kodak-red/20 theme-transition">
                 <div className="space-y-3">
-                  <label className="text-[10px] font-black text-kodak-yellow uppercase tracking-[0.2em] theme-transition">Select Emulsion</label>
+                  <label className="text-[10px] font-black text-kodak-yellow uppercase tracking-[0.2em] theme-transition">Emulsion Engine</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {Object.values(PROCESSORS).map((engine) => (
+                      <button
+                        key={engine.id}
+                        onClick={() => setProcessorId(engine.id)}
+                        title={engine.description}
+                        className={`py-2 font-display text-lg transition-all border-2 theme-transition ${processorId === engine.id ? 'bg-kodak-red border-kodak-yellow text-kodak-yellow shadow-[4px_4px_0px_var(--theme-accent)]' : 'bg-kodak-dark border-kodak-red/50 text-kodak-red/50 hover:border-kodak-red hover:text-kodak-red'}`}
+                      >
+                        {engine.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <label className="text-[10px] font-black text-kodak-yellow uppercase tracking-[0.2em] theme-transition">Select Emulsion</label>
+                    <button
+                      onClick={() => setEditingStock(createCustomProfile())}
+                      title="Define a new film stock profile for the registry"
+                      className="text-[10px] font-black text-kodak-red hover:text-kodak-yellow uppercase tracking-widest transition-colors theme-transition"
+                    >
+                      + Custom Stock
+                    </button>
+                  </div>
                   <div className="grid grid-cols-2 gap-2 max-h-[280px] overflow-y-auto pr-1 custom-scrollbar">
-                    {(Object.keys(FILM_STOCK_CHARACTERISTICS) as FilmStock[]).map((stock) => (
+                    {[...BUILT_IN_PROFILES, ...customStocks].map((profile) => (
                       <button
-                        key={stock}
-                        onClick={() => setFilmStock(stock)}
-                        title={`Select ${stock}: ${FILM_STOCK_CHARACTERISTICS[stock]}`}
-                        className={`px-3 py-2 text-left font-display text-sm md:text-lg transition-all border-2 theme-transition leading-tight flex flex-col justify-center min-h-[64px] ${
-                          filmStock === stock 
+                        key={profile.name}
+                        onClick={() => setFilmStock(profile.name)}
+                        title={`Select ${profile.name}: ${profile.characteristics}`}
+                        className={`group/stock relative px-3 py-2 text-left font-display text-sm md:text-lg transition-all border-2 theme-transition leading-tight flex flex-col justify-center min-h-[64px] ${
+                          filmStock === profile.name 
                             ? 'bg-kodak-red border-kodak-yellow text-kodak-yellow shadow-[4px_4px_0px_var(--theme-accent)]' 
                             : 'bg-kodak-dark border-kodak-red/30 text-kodak-red/40 hover:border-kodak-red hover:text-kodak-red'
                         }`}
                       >
-                        <span className="uppercase tracking-tighter">{stock.split(' (')[0]}</span>
-                        {stock.includes('(B&W)') && <span className="text-[8px] font-black opacity-60 tracking-[0.1em] mt-1">MONO</span>}
+                        <span className="uppercase tracking-tighter">{profile.name.split(' (')[0]}</span>
+                        {(profile.monochrome || !profile.builtIn) && (
+                          <span className="text-[8px] font-black opacity-60 tracking-[0.1em] mt-1">
+                            {[profile.monochrome && 'MONO', !profile.builtIn && 'CUSTOM'].filter(Boolean).join(' // ')}
+                          </span>
+                        )}
+                        {!profile.builtIn && (
+                          <span
+                            onClick={(e) => { e.stopPropagation(); setEditingStock(profile); }}
+                            title={`Edit ${profile.name}`}
+                            className="absolute top-1 right-1 px-1 text-[9px] font-black uppercase tracking-widest opacity-0 group-hover/stock:opacity-100 hover:text-kodak-yellow transition-opacity"
+                          >
+                            Edit
+                          </span>
+                        )}
                       </button>
                     ))}
                   </div>
@@ -470,12 +1568,13 @@ const App: React.FC = () => {
                     <span className="font-display text-2xl text-kodak-red theme-transition" title="Current film speed setting">{iso}</span>
                   </div>
                   <div className="grid grid-cols-4 gap-2">
-                    {[200, 400, 800, 1600].map((val) => (
+                    {ISO_VALUES.map((val) => (
                       <button
                         key={val}
-                        onClick={() => setIso(val as ISOValue)}
-                        title={`ISO ${val}: ${val <= 400 ? 'Fine, clean grain structure' : 'Course, moody grain structure'}`}
-                        className={`py-2 font-display text-xl transition-all border-2 theme-transition ${iso === val ? 'bg-kodak-red border-kodak-yellow text-kodak-yellow shadow-[4px_4px_0px_var(--theme-accent)]' : 'bg-kodak-dark border-kodak-red/50 text-kodak-red/50 hover:border-kodak-red hover:text-kodak-red'}`}
+                        onClick={() => setIso(val)}
+                        disabled={!stockProfile.isoRange.includes(val)}
+                        title={stockProfile.isoRange.includes(val) ? `ISO ${val}: ${val <= 400 ? 'Fine, clean grain structure' : 'Course, moody grain structure'}` : `${filmStock} is not rated for ISO ${val}`}
+                        className={`py-2 font-display text-xl transition-all border-2 theme-transition disabled:opacity-20 disabled:cursor-not-allowed ${iso === val ? 'bg-kodak-red border-kodak-yellow text-kodak-yellow shadow-[4px_4px_0px_var(--theme-accent)]' : 'bg-kodak-dark border-kodak-red/50 text-kodak-red/50 hover:border-kodak-red hover:text-kodak-red'}`}
                       >
                         {val}
                       </button>
@@ -483,6 +1582,17 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                <ColorGradePanel
+                  lutTitle={getLutForStock(filmStock).title}
+                  isCustom={!!customLuts[filmStock]}
+                  strength={lutStrength}
+                  error={lutError}
+                  onStrengthChange={setLutStrength}
+                  onImport={importCubeLut}
+                  onExport={exportCubeLut}
+                  onReset={resetCubeLut}
+                />
+
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <p className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest theme-transition">Ratio</p>
@@ -507,17 +1617,168 @@ const App: React.FC = () => {
                     </select>
                   </div>
                 </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest theme-transition">Auto-Retry</p>
+                  <select 
+                    value={maxAttempts} 
+                    onChange={(e) => setMaxAttempts(parseInt(e.target.value))} 
+                    title="Retry rate limits and transient failures automatically. Safety and recitation rejections are never retried."
+                    className="bg-kodak-dark border border-kodak-red/30 p-2 text-kodak-yellow/80 font-display text-lg outline-none theme-transition"
+                  >
+                    <option value={1}>Off</option>
+                    <option value={2}>2 Attempts</option>
+                    <option value={3}>3 Attempts</option>
+                    <option value={5}>5 Attempts</option>
+                  </select>
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest theme-transition">Timeout</p>
+                  <select 
+                    value={timeoutSeconds} 
+                    onChange={(e) => setTimeoutSeconds(parseInt(e.target.value))} 
+                    title="Abandon a development that takes longer than this, including retries"
+                    className="bg-kodak-dark border border-kodak-red/30 p-2 text-kodak-yellow/80 font-display text-lg outline-none theme-transition"
+                  >
+                    <option value={60}>1 Min</option>
+                    <option value={180}>3 Min</option>
+                    <option value={300}>5 Min</option>
+                    <option value={0}>None</option>
+                  </select>
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest theme-transition">Tiling</p>
+                  <select 
+                    value={tileGrid} 
+                    onChange={(e) => setTileGrid(parseInt(e.target.value))} 
+                    title={`Develop the negative as overlapping tiles with the same recipe and stitch them into a poster-size print of up to ${TILED_MAX_LONG_EDGE}px. Each tile is a separate engine call.`}
+                    className="bg-kodak-dark border border-kodak-red/30 p-2 text-kodak-yellow/80 font-display text-lg outline-none theme-transition"
+                  >
+                    {TILE_GRIDS.map(grid => (
+                      <option key={grid} value={grid}>{grid === 1 ? 'Off' : `${grid}×${grid} Tiles`}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest theme-transition">Reuse</p>
+                  <select 
+                    value={cacheMode} 
+                    onChange={(e) => setCacheMode(e.target.value as CacheMode)} 
+                    title="When the same negative is developed again with identical settings, offer the earlier print, show it automatically, or always call the engine"
+                    className="bg-kodak-dark border border-kodak-red/30 p-2 text-kodak-yellow/80 font-display text-lg outline-none theme-transition"
+                  >
+                    <option value="offer">Ask</option>
+                    <option value="auto">Automatic</option>
+                    <option value="off">Off</option>
+                  </select>
+                </div>
               </div>
 
+              {variantParent && (
+                <div className="flex items-center justify-between gap-2 p-2 bg-kodak-dark border-2 border-kodak-yellow/50 theme-transition">
+                  <span className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest truncate theme-transition">
+                    Variant of {variantParent.filmStock} @ {variantParent.iso}
+                  </span>
+                  <button
+                    onClick={() => setVariantParent(null)}
+                    title="Develop as a fresh print instead of a variant in this stack"
+                    className="text-[10px] font-black text-kodak-red hover:text-kodak-yellow uppercase tracking-widest transition-colors theme-transition"
+                  >
+                    Unlink
+                  </button>
+                </div>
+              )}
+
+              {cachedPrint && (
+                <div className="p-2 space-y-2 bg-kodak-dark border-2 border-kodak-yellow/50 theme-transition">
+                  <p className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest theme-transition">
+                    {cachedPrint.reused
+                      ? `Reused the identical print from ${new Date(cachedPrint.print.timestamp).toLocaleString()}. No engine call was made.`
+                      : `An identical print was developed ${new Date(cachedPrint.print.timestamp).toLocaleString()}.`}
+                  </p>
+                  <div className="flex justify-between gap-2">
+                    {!cachedPrint.reused && (
+                      <button
+                        onClick={() => showCachedPrint(cachedPrint.print)}
+                        title="Show the earlier print instead of calling the engine again"
+                        className="text-[10px] font-black text-kodak-yellow hover:text-white uppercase tracking-widest transition-colors theme-transition"
+                      >
+                        Use Existing
+                      </button>
+                    )}
+                    <button
+                      onClick={() => startProcessing(true)}
+                      title="Develop again anyway for a fresh variation. This calls the engine."
+                      className="text-[10px] font-black text-kodak-red hover:text-kodak-yellow uppercase tracking-widest transition-colors theme-transition"
+                    >
+                      Force Re-develop
+                    </button>
+                  </div>
+                </div>
+              )}
+
               <button 
-                onClick={startProcessing} 
-                disabled={!originalBase64 || processingState.status !== 'idle'} 
-                title="Initialize the development process using Gemini 3 Pro Vision"
+                onClick={() => startProcessing()} 
+                disabled={!originalBase64 || (processingState.status !== 'idle' && processingState.status !== 'cancelled')} 
+                title={`Initialize the development process using ${processor.label}`}
                 className="w-full py-6 bg-kodak-yellow disabled:bg-kodak-dark disabled:text-kodak-red/20 text-kodak-dark font-display text-4xl uppercase tracking-tighter hover:brightness-110 active:translate-y-1 transition-all shadow-[-8px_8px_0px_var(--theme-brand)] theme-transition"
               >
-                {processingState.status === 'idle' ? 'Start Developing' : 'In Lab...'}
+                {isDeveloping ? 'In Lab...' : 'Start Developing'}
               </button>
+              {processingState.status === 'cancelled' && (
+                <p className="text-[10px] font-black text-kodak-red uppercase tracking-widest text-center theme-transition">{processingState.message}</p>
+              )}
             </section>
+
+            <BracketPanel
+              profiles={[...BUILT_IN_PROFILES, ...customStocks]}
+              filmStock={filmStock}
+              iso={iso}
+              disabled={!originalBase64 || isDeveloping}
+              onDevelop={developBracket}
+            />
+
+            <RecipeShelf
+              recipes={recipes}
+              activeId={findRecipeFor(currentRecipe())?.id}
+              error={recipeError}
+              onSave={saveRecipe}
+              onLoad={loadRecipe}
+              onDelete={deleteRecipe}
+              onExport={exportRecipes}
+              onImport={importRecipes}
+            />
+
+            <PromptTemplateEditor
+              templates={promptTemplates}
+              active={activeTemplate}
+              variables={promptVariablesFor(currentRecipe())}
+              onSave={savePromptTemplate}
+              onActivate={setActiveTemplateId}
+              onDelete={deletePromptTemplate}
+            />
+
+            <UsagePanel
+              ledger={usageLedger}
+              spend={usageSpend}
+              settings={usageSettings}
+              onSettingsChange={setUsageSettings}
+              onClear={clearUsageLedger}
+            />
+
+            {batchJobs.length > 0 && (
+              <DevelopmentQueuePanel
+                jobs={batchJobs}
+                paused={queuePaused}
+                concurrency={concurrency}
+                onPauseToggle={toggleQueuePause}
+                onConcurrencyChange={handleConcurrencyChange}
+                onClearFinished={() => getQueue().clearFinished()}
+              />
+            )}
           </aside>
 
           <main className="lg:col-span-8 flex flex-col gap-8">
@@ -525,19 +1786,52 @@ const App: React.FC = () => {
               <div className="flex-1 space-y-12 animate-in fade-in zoom-in-95 duration-500">
                 <div className="flex items-center justify-between border-b-2 border-kodak-red pb-4 theme-transition">
                   <h2 className="font-display text-4xl text-kodak-yellow uppercase tracking-tighter theme-transition">Stack Comparison ({history.filter(h => h.selected).length})</h2>
-                  <button onClick={() => setCompareMode(false)} title="Close comparison and return to development area" className="px-6 py-2 bg-kodak-yellow text-kodak-dark font-display text-xl border-4 border-kodak-red theme-transition">Back to Lab</button>
+                  <div className="flex items-center gap-4">
+                    <div className="flex items-center bg-kodak-dark border-2 border-kodak-red theme-transition">
+                      {compareLinked && (
+                        <>
+                          <button onClick={() => handleCompareZoom(-0.5)} title="Decrease magnification on every print" className="w-10 h-10 font-display text-2xl text-kodak-yellow hover:bg-kodak-red transition-all theme-transition">−</button>
+                          <button onClick={() => { setCompareZoom(1); setComparePan({ x: 0, y: 0 }); }} title="Reset every print to the full frame" className="px-2 h-10 text-[10px] font-black text-kodak-red hover:text-kodak-yellow uppercase transition-colors theme-transition">{compareZoom}×</button>
+                          <button onClick={() => handleCompareZoom(0.5)} title="Increase magnification on every print to compare grain at the same spot" className="w-10 h-10 font-display text-2xl text-kodak-yellow hover:bg-kodak-red transition-all theme-transition">+</button>
+                        </>
+                      )}
+                      <button
+                        onClick={toggleCompareLink}
+                        title={compareLinked ? 'Zoom and pan each print on its own' : 'Lock every print to the same zoom and pan'}
+                        className={`px-3 h-10 text-[10px] font-black uppercase tracking-widest transition-colors theme-transition ${compareLinked ? 'bg-kodak-red text-kodak-yellow' : 'text-kodak-yellow/60 hover:text-kodak-yellow'}`}
+                      >
+                        {compareLinked ? 'Linked' : 'Unlinked'}
+                      </button>
+                    </div>
+                    <button onClick={() => setCompareMode(false)} title="Close comparison and return to development area" className="px-6 py-2 bg-kodak-yellow text-kodak-dark font-display text-xl border-4 border-kodak-red theme-transition">Back to Lab</button>
+                  </div>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                   {history.filter(h => h.selected).map(item => (
                     <div key={item.id} className="space-y-4 bg-[#2a2a2a] p-4 border-l-4 border-kodak-red theme-transition">
-                      <ComparisonSlider original={item.originalUrl} processed={item.processedUrl} aspectRatio={item.aspectRatio} />
+                      <ComparisonSlider
+                        original={item.originalUrl}
+                        processed={item.processedUrl}
+                        aspectRatio={item.aspectRatio}
+                        zoomScale={compareLinked ? compareZoom : compareZooms[item.id] ?? compareZoom}
+                        pan={compareLinked ? comparePan : undefined}
+                        onPanChange={compareLinked ? setComparePan : undefined}
+                      />
                       <div className="flex items-center justify-between">
                         <div className="flex flex-col">
                           <span className="font-display text-2xl text-kodak-yellow uppercase theme-transition">{item.filmStock} @ ISO {item.iso}</span>
                           <span className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">Texture Reconstruction: {item.skinDetail}%</span>
+                          <DriftBadge metrics={item.drift} className="self-start mt-1" />
                         </div>
+                        {!compareLinked && (
+                          <div className="flex items-center bg-kodak-dark border border-kodak-red/50 theme-transition">
+                            <button onClick={() => handleCompareZoom(-0.5, item.id)} title="Decrease magnification on this print" className="w-8 h-8 font-display text-xl text-kodak-yellow hover:bg-kodak-red transition-all theme-transition">−</button>
+                            <span className="px-1 text-[10px] font-black text-kodak-red uppercase theme-transition">{compareZooms[item.id] ?? compareZoom}×</span>
+                            <button onClick={() => handleCompareZoom(0.5, item.id)} title="Increase magnification on this print" className="w-8 h-8 font-display text-xl text-kodak-yellow hover:bg-kodak-red transition-all theme-transition">+</button>
+                          </div>
+                        )}
                         <button 
-                          onClick={() => triggerDownload(item.processedUrl, getDownloadFilename(item.filmStock, item.iso, item.timestamp))} 
+                          onClick={() => downloadPrint(item)} 
                           title="Download this specific version" 
                           className="text-kodak-red font-bold text-xs uppercase hover:underline theme-transition"
                         >
@@ -548,7 +1842,7 @@ const App: React.FC = () => {
                   ))}
                 </div>
               </div>
-            ) : processingState.status !== 'idle' && processingState.status !== 'error' ? (
+            ) : isDeveloping ? (
               <div className="flex-1 flex flex-col items-center justify-center bg-[#1e1e1e] border-8 border-kodak-red/10 min-h-[600px] p-12 text-center relative overflow-hidden theme-transition">
                 <div className="absolute top-0 left-0 w-full h-full opacity-10 pointer-events-none" style={{ backgroundImage: 'radial-gradient(circle, var(--theme-brand) 1px, transparent 1px)', backgroundSize: '20px 20px' }} />
                 <div className="relative w-32 h-32 mb-8">
@@ -560,6 +1854,26 @@ const App: React.FC = () => {
                 </div>
                 <h3 className="font-display text-5xl text-kodak-yellow mb-4 uppercase theme-transition">DEVELOPING FILM</h3>
                 <p className="text-kodak-cream/60 font-bold text-sm max-w-xs mx-auto uppercase tracking-widest leading-relaxed theme-transition">{processingState.message}</p>
+                {tileStatus && (
+                  <div className="relative mt-6 grid gap-1 w-40" style={{ gridTemplateColumns: `repeat(${Math.sqrt(tileStatus.length)}, minmax(0, 1fr))` }}>
+                    {tileStatus.map((status, index) => (
+                      <div
+                        key={index}
+                        title={`Tile ${index + 1}: ${status}`}
+                        className={`aspect-square border-2 theme-transition ${status === 'done' ? 'bg-kodak-yellow border-kodak-yellow' : status === 'developing' ? 'bg-kodak-red/40 border-kodak-red animate-pulse' : 'bg-kodak-dark border-kodak-red/30'}`}
+                      />
+                    ))}
+                  </div>
+                )}
+                {processingState.status === 'processing' && (
+                  <button 
+                    onClick={cancelProcessing} 
+                    title="Abort this development. Nothing will be written to the contact sheet."
+                    className="relative mt-8 px-10 py-3 bg-kodak-dark text-kodak-yellow font-display text-2xl uppercase border-2 border-kodak-yellow hover:bg-kodak-yellow hover:text-kodak-dark transition-all theme-transition"
+                  >
+                    Cancel
+                  </button>
+                )}
               </div>
             ) : processedUrl && originalBase64 ? (
               <div className="space-y-8 animate-in slide-in-from-bottom-8 duration-700">
@@ -604,18 +1918,27 @@ const App: React.FC = () => {
                   <div className="space-y-1 relative z-10">
                     <h3 className="font-display text-5xl text-kodak-yellow uppercase leading-none theme-transition">{filmStock} Complete</h3>
                     <p className="font-bold text-xs uppercase tracking-[0.2em] text-white/80 theme-transition">Photographic authenticity restored with {skinDetail}% texture reconstruction.</p>
+                    <DriftBadge metrics={history.find(item => item.id === activeEntryId)?.drift} className="inline-block mt-2" />
                   </div>
                   <div className="flex items-center gap-4 relative z-10">
-                    <button onClick={() => { setProcessedUrl(null); setZoomScale(1); }} title="Clear and load another negative" className="px-8 py-3 bg-kodak-dark text-kodak-yellow font-display text-xl border-2 border-kodak-yellow hover:bg-kodak-yellow hover:text-kodak-dark transition-all theme-transition">New Negative</button>
+                    <button onClick={() => { setProcessedUrl(null); setActiveEntryId(null); setVariantParent(null); setCachedPrint(null); setZoomScale(1); }} title="Clear and load another negative" className="px-8 py-3 bg-kodak-dark text-kodak-yellow font-display text-xl border-2 border-kodak-yellow hover:bg-kodak-yellow hover:text-kodak-dark transition-all theme-transition">New Negative</button>
                     <button 
-                      onClick={() => triggerDownload(processedUrl, getDownloadFilename(filmStock, iso))} 
-                      title="Export the developed print as a high-quality PNG" 
+                      onClick={() => {
+                        const entry = history.find(item => item.id === activeEntryId);
+                        if (entry) downloadPrint(entry);
+                        else triggerDownload(processedUrl, getDownloadFilename(filmStock, iso));
+                      }} 
+                      title="Export the developed print as a high-quality PNG with its recipe embedded" 
                       className="px-10 py-3 bg-kodak-yellow text-kodak-dark font-display text-3xl uppercase tracking-tighter shadow-[-6px_6px_0px_var(--theme-bg)] hover:translate-x-1 hover:-translate-y-1 hover:shadow-[-10px_10px_0px_var(--theme-bg)] active:translate-x-0 active:translate-y-0 active:shadow-none transition-all theme-transition"
                     >
                       Save Print
                     </button>
                   </div>
                 </div>
+
+                <ScopesPanel original={originalBase64} processed={processedUrl} />
+
+                <GrainDarkroom filmStock={filmStock} iso={iso} busy={isGraining} onApply={regrain} />
               </div>
             ) : processingState.status === 'error' ? (
               <div className="flex-1 flex flex-col items-center justify-center bg-kodak-red/10 border-8 border-kodak-red p-12 text-center animate-in shake duration-500 theme-transition">
@@ -623,23 +1946,30 @@ const App: React.FC = () => {
                 
                 <div className="bg-kodak-dark p-6 border-4 border-kodak-red mb-8 max-w-lg theme-transition w-full">
                   {(() => {
-                    const parsed = parseErrorMessage(processingState.message || "");
-                    if (parsed.type === 'rejection') {
+                    const labError = processingState.error;
+                    if (labError && (labError.why || labError.remedy)) {
                       return (
                         <div className="text-left space-y-4">
-                          <p className="font-display text-2xl text-kodak-yellow uppercase tracking-tight">{parsed.main}</p>
-                          <div className="space-y-2">
-                             <p className="text-[10px] font-black text-kodak-red uppercase tracking-widest">WHY:</p>
-                             <p className="text-sm text-kodak-cream/80 italic font-medium leading-relaxed">{parsed.why}</p>
-                          </div>
-                          <div className="space-y-2 pt-2 border-t border-kodak-red/30">
-                             <p className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest">HOW TO FIX:</p>
-                             <p className="text-sm text-kodak-yellow font-bold leading-relaxed">{parsed.remedy}</p>
+                          <div className="flex items-start justify-between gap-4">
+                            <p className="font-display text-2xl text-kodak-yellow uppercase tracking-tight">{labError.message}</p>
+                            <span className="shrink-0 px-2 py-0.5 border-2 border-kodak-red text-[9px] font-black text-kodak-red uppercase tracking-widest" title={labError.finishReason ? `Finish reason: ${labError.finishReason}` : undefined}>{labError.code}</span>
                           </div>
+                          {labError.why && (
+                            <div className="space-y-2">
+                               <p className="text-[10px] font-black text-kodak-red uppercase tracking-widest">WHY:</p>
+                               <p className="text-sm text-kodak-cream/80 italic font-medium leading-relaxed">{labError.why}</p>
+                            </div>
+                          )}
+                          {labError.remedy && (
+                            <div className="space-y-2 pt-2 border-t border-kodak-red/30">
+                               <p className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest">HOW TO FIX:</p>
+                               <p className="text-sm text-kodak-yellow font-bold leading-relaxed">{labError.remedy}</p>
+                            </div>
+                          )}
                         </div>
                       );
                     }
-                    return <p className="font-mono text-sm text-kodak-red/80 uppercase theme-transition">Status: FAILED_RECONSTRUCTION<br/>Message: {processingState.message}</p>;
+                    return <p className="font-mono text-sm text-kodak-red/80 uppercase theme-transition">Status: {labError ? labError.code : 'FAILED_RECONSTRUCTION'}<br/>Message: {processingState.message}</p>;
                   })()}
                 </div>
                 
@@ -652,7 +1982,7 @@ const App: React.FC = () => {
                 </button>
               </div>
             ) : (
-              <div onClick={() => fileInputRef.current?.click()} title="Drag and drop or click to upload an AI image" className="flex-1 min-h-[600px] flex flex-col items-center justify-center border-8 border-dashed border-[#2a2a2a] bg-[#111] p-12 text-center group cursor-pointer hover:border-kodak-red transition-all duration-700 shadow-inner theme-transition">
+              <div onClick={() => fileInputRef.current?.click()} title={`Drag and drop, paste or click to upload an AI image (${ACCEPTED_NEGATIVE_LABEL})`} className="flex-1 min-h-[600px] flex flex-col items-center justify-center border-8 border-dashed border-[#2a2a2a] bg-[#111] p-12 text-center group cursor-pointer hover:border-kodak-red transition-all duration-700 shadow-inner theme-transition">
                 <div className="w-32 h-32 bg-kodak-dark border-4 border-kodak-red rotate-3 flex items-center justify-center mb-10 shadow-[8px_8px_0px_var(--theme-brand)] group-hover:rotate-0 group-hover:scale-110 transition-all duration-500 theme-transition"><svg className="w-14 h-14 text-kodak-red group-hover:text-kodak-yellow theme-transition" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 4v16m8-8H4" /></svg></div>
                 <h3 className="font-display text-6xl text-kodak-yellow mb-4 uppercase tracking-tighter theme-transition">Drop Synthetic Frame</h3>
                 <p className="text-kodak-cream/40 font-bold text-sm max-w-sm mx-auto uppercase tracking-[0.3em] leading-loose theme-transition">Detection enabled for Midjourney and Flux sources. Ready for grain injection.</p>
@@ -665,7 +1995,29 @@ const App: React.FC = () => {
           <div className="flex flex-col md:flex-row items-center justify-between gap-4 px-2">
             <div className="flex items-center gap-4">
               <h3 className="font-display text-5xl text-kodak-yellow uppercase tracking-tighter theme-transition">THE CONTACT SHEET</h3>
-              <span className="text-[10px] font-black text-kodak-red uppercase tracking-widest bg-kodak-red/10 px-3 py-1 theme-transition">Stored Prints: {history.length}</span>
+              <span className="text-[10px] font-black text-kodak-red uppercase tracking-widest bg-kodak-red/10 px-3 py-1 theme-transition">Stored Prints: {historyTotal}</span>
+              {filteringHistory && (
+                <span className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest bg-kodak-yellow/10 px-3 py-1 theme-transition">Showing {visibleHistory.length}{historyCursor ? '+' : ''}</span>
+              )}
+            </div>
+            <div className="flex items-center gap-3">
+              <input type="file" ref={archiveInputRef} onChange={importArchive} className="hidden" accept=".zip,application/zip" />
+              <button
+                onClick={() => archiveInputRef.current?.click()}
+                disabled={isArchiving}
+                title="Merge a lab archive from another machine or teammate into this history"
+                className="px-4 py-2 bg-kodak-dark text-kodak-yellow font-display text-xl border-2 border-kodak-red/50 hover:border-kodak-red disabled:opacity-40 transition-all theme-transition"
+              >
+                Import Archive
+              </button>
+              <button
+                onClick={exportArchive}
+                disabled={isArchiving || historyTotal === 0}
+                title="Download originals, developed prints and a JSON manifest as one .zip (selected prints only, if any are selected)"
+                className="px-4 py-2 bg-kodak-dark text-kodak-yellow font-display text-xl border-2 border-kodak-red/50 hover:border-kodak-red disabled:opacity-40 transition-all theme-transition"
+              >
+                {isArchiving ? 'Working...' : history.some(h => h.selected) ? 'Export Selected' : 'Export All'}
+              </button>
             </div>
             {history.filter(h => h.selected).length > 0 && (
               <button 
@@ -677,51 +2029,87 @@ const App: React.FC = () => {
               </button>
             )}
           </div>
+
+          {archiveStatus && (
+            <p className={`px-2 text-[10px] font-black uppercase tracking-widest theme-transition ${archiveStatus.error ? 'text-kodak-red' : 'text-kodak-yellow'}`}>{archiveStatus.message}</p>
+          )}
+
+          <ContactSheetFilters
+            filter={historyFilter}
+            sort={historySort}
+            stocks={[...BUILT_IN_PROFILES, ...customStocks].map(p => p.name)}
+            onChange={setHistoryFilter}
+            onSortChange={setHistorySort}
+            onReset={() => { setHistoryFilter(DEFAULT_HISTORY_FILTER); setHistorySort('newest'); }}
+          />
           
           <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4 max-h-[600px] overflow-y-auto p-4 bg-black/20 border-2 border-white/5 custom-scrollbar theme-transition">
-            {history.length === 0 ? (
+            {visibleHistory.length === 0 ? (
               <div className="col-span-full py-20 text-center opacity-20">
-                <span className="font-display text-4xl uppercase theme-transition">No prints developed yet</span>
+                <span className="font-display text-4xl uppercase theme-transition">{filteringHistory ? (isLoadingHistory ? 'Searching the archive...' : 'No prints match these filters') : 'No prints developed yet'}</span>
               </div>
             ) : (
-              history.map((item) => (
-                <div 
-                  key={item.id} 
-                  onClick={() => { 
-                    setOriginalBase64(item.originalUrl); 
-                    setProcessedUrl(item.processedUrl); 
-                    setAspectRatio(item.aspectRatio); 
-                    setImageSize(item.size); 
-                    setFilmStock(item.filmStock); 
-                    setIso(item.iso); 
-                    setSkinDetail(item.skinDetail || 50); 
-                    setZoomScale(1);
-                    window.scrollTo({ top: 0, behavior: 'smooth' });
-                  }} 
-                  title={`View print: ${item.filmStock} @ ISO ${item.iso}`}
-                  className={`group relative aspect-[4/5] overflow-hidden border-4 transition-all cursor-pointer theme-transition shadow-lg ${item.selected ? 'border-kodak-yellow scale-95' : 'border-[#2a2a2a] hover:border-kodak-red'}`}
-                >
-                  <img src={item.processedUrl} alt="History" className="w-full h-full object-cover" />
-                  <div className="absolute top-2 left-2 z-30" onClick={(e) => toggleSelection(item.id, e)} title="Click to select for comparison">
-                    <div className={`w-8 h-8 border-2 flex items-center justify-center transition-all ${item.selected ? 'bg-kodak-yellow border-kodak-dark' : 'bg-black/40 border-white'} theme-transition`}>
-                      {item.selected && <svg className="w-5 h-5 text-kodak-dark theme-transition" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>}
+              visibleStacks.flatMap((stack) => {
+                const expanded = expandedStacks.has(stack.id);
+                return (expanded ? stack.prints : stack.prints.slice(0, 1)).map((item, index) => (
+                  <div 
+                    key={item.id} 
+                    onClick={() => viewPrint(item)} 
+                    title={`View print: ${item.filmStock} @ ISO ${item.iso}`}
+                    className={`group relative aspect-[4/5] overflow-hidden border-4 transition-all cursor-pointer theme-transition ${stack.prints.length > 1 && !expanded ? 'shadow-[6px_6px_0px_#2a2a2a,12px_12px_0px_#1f1f1f]' : 'shadow-lg'} ${item.selected ? 'border-kodak-yellow scale-95' : index > 0 ? 'border-kodak-red/40 hover:border-kodak-red' : 'border-[#2a2a2a] hover:border-kodak-red'}`}
+                  >
+                    <img src={item.processedUrl} alt="History" className="w-full h-full object-cover" />
+                    <div className="absolute top-2 left-2 z-30" onClick={(e) => toggleSelection(item.id, e)} title="Click to select for comparison">
+                      <div className={`w-8 h-8 border-2 flex items-center justify-center transition-all ${item.selected ? 'bg-kodak-yellow border-kodak-dark' : 'bg-black/40 border-white'} theme-transition`}>
+                        {item.selected && <svg className="w-5 h-5 text-kodak-dark theme-transition" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>}
+                      </div>
                     </div>
+                    <div className="absolute inset-0 bg-kodak-dark/40 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col items-center justify-center p-2 text-center">
+                      <span className="font-display text-xl text-kodak-yellow leading-tight theme-transition">{item.filmStock}</span>
+                      <span className="text-[10px] font-bold text-kodak-red uppercase theme-transition">ISO {item.iso}</span>
+                      <span className="text-[8px] font-bold text-kodak-cream uppercase tracking-widest mt-1 theme-transition">{item.skinDetail}% Detail</span>
+                      {item.recipe && <span className="text-[8px] font-black text-kodak-yellow uppercase tracking-widest mt-1 truncate max-w-full theme-transition">Recipe: {item.recipe.name}</span>}
+                      {item.promptTemplate && item.promptTemplate.id !== DEFAULT_PROMPT_TEMPLATE.id && <span className="text-[8px] font-black text-kodak-cream uppercase tracking-widest mt-1 truncate max-w-full theme-transition">Prompt: {item.promptTemplate.name} v{item.promptTemplate.version}</span>}
+                      {item.tiles && <span className="text-[8px] font-black text-kodak-cream uppercase tracking-widest mt-1 theme-transition">{item.tiles}×{item.tiles} Tiled</span>}
+                      <div className="flex gap-1 mt-2">
+                        <button onClick={(e) => redevelopPrint(item, e)} title="Queue this source again with the exact same recipe and engine" className="px-2 py-1 bg-kodak-red text-kodak-yellow text-[8px] font-black uppercase tracking-widest hover:bg-kodak-yellow hover:text-kodak-dark transition-colors theme-transition">Re-develop</button>
+                        <button onClick={(e) => developVariant(item, e)} title="Load this print into the lab, adjust the settings and develop a variant" className="px-2 py-1 bg-kodak-dark text-kodak-yellow text-[8px] font-black uppercase tracking-widest border border-kodak-yellow/50 hover:border-kodak-yellow transition-colors theme-transition">Variant</button>
+                      </div>
+                    </div>
+                    {stack.prints.length > 1 && index === 0 && (
+                      <button
+                        onClick={(e) => toggleStack(stack.id, e)}
+                        title={expanded ? 'Collapse this stack' : `Show all ${stack.prints.length} developments of this source`}
+                        className="absolute bottom-2 left-2 z-30 px-2 py-1 bg-kodak-yellow text-kodak-dark text-[9px] font-black uppercase tracking-widest shadow-lg theme-transition"
+                      >
+                        {expanded ? 'Collapse' : `Stack ×${stack.prints.length}`}
+                      </button>
+                    )}
+                    {index > 0 && (
+                      <span className="absolute bottom-2 left-2 z-30 px-2 py-1 bg-black/60 text-kodak-yellow text-[9px] font-black uppercase tracking-widest theme-transition">Variant {stack.prints.length - index}</span>
+                    )}
+                    <DriftBadge metrics={item.drift} className="absolute top-2 right-12 z-30" />
+                    <button onClick={(e) => deleteHistoryItem(item.id, e)} title="Delete this print from lab history" className="absolute top-2 right-2 w-8 h-8 bg-kodak-red text-kodak-yellow flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity hover:bg-white hover:text-kodak-red theme-transition">×</button>
+                    <button 
+                      onClick={(e) => { e.stopPropagation(); downloadPrint(item); }} 
+                      title="Download this print" 
+                      className="absolute bottom-2 right-2 w-10 h-10 bg-kodak-yellow text-kodak-dark rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity hover:scale-110 shadow-xl theme-transition"
+                    >
+                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4-4v12" /></svg>
+                    </button>
                   </div>
-                  <div className="absolute inset-0 bg-kodak-dark/40 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col items-center justify-center p-2 text-center">
-                    <span className="font-display text-xl text-kodak-yellow leading-tight theme-transition">{item.filmStock}</span>
-                    <span className="text-[10px] font-bold text-kodak-red uppercase theme-transition">ISO {item.iso}</span>
-                    <span className="text-[8px] font-bold text-kodak-cream uppercase tracking-widest mt-1 theme-transition">{item.skinDetail}% Detail</span>
-                  </div>
-                  <button onClick={(e) => deleteHistoryItem(item.id, e)} title="Delete this print from lab history" className="absolute top-2 right-2 w-8 h-8 bg-kodak-red text-kodak-yellow flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity hover:bg-white hover:text-kodak-red theme-transition">×</button>
-                  <button 
-                    onClick={(e) => { e.stopPropagation(); triggerDownload(item.processedUrl, getDownloadFilename(item.filmStock, item.iso, item.timestamp)); }} 
-                    title="Download this print" 
-                    className="absolute bottom-2 right-2 w-10 h-10 bg-kodak-yellow text-kodak-dark rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity hover:scale-110 shadow-xl theme-transition"
-                  >
-                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4-4v12" /></svg>
-                  </button>
-                </div>
-              ))
+                ));
+              })
+            )}
+            {historyCursor && (
+              <button
+                onClick={loadOlderPrints}
+                disabled={isLoadingHistory}
+                title="Load the next sheet of stored prints from the archive"
+                className="col-span-full py-3 bg-kodak-dark text-kodak-yellow font-display text-2xl uppercase border-2 border-kodak-red/50 hover:border-kodak-red disabled:opacity-40 transition-all theme-transition"
+              >
+                {isLoadingHistory ? 'Pulling Negatives...' : filteringHistory ? 'Search Older Prints' : `Load ${historySort === 'oldest' ? 'Newer' : 'Older'} Prints (${historyTotal - history.length})`}
+              </button>
             )}
           </div>
         </section>
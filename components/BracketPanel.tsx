@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { FilmStock, FilmStockProfile, ISOValue } from '../types';
+import { ISO_VALUES } from '../services/filmStockRegistry';
+
+interface BracketPanelProps {
+  profiles: FilmStockProfile[];
+  filmStock: FilmStock;
+  iso: ISOValue;
+  disabled: boolean;
+  onDevelop: (frames: { filmStock: FilmStock; iso: ISOValue }[]) => void;
+}
+
+export const MAX_BRACKET_FRAMES = 12;
+
+const BracketPanel: React.FC<BracketPanelProps> = ({ profiles, filmStock, iso, disabled, onDevelop }) => {
+  const [stocks, setStocks] = useState<FilmStock[]>([filmStock]);
+  const [isos, setIsos] = useState<ISOValue[]>([iso]);
+
+  const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  // Every stock/ISO combination the stock is actually rated for
+  const frames = profiles
+    .filter(profile => stocks.includes(profile.name))
+    .flatMap(profile => isos.filter(value => profile.isoRange.includes(value)).map(value => ({ filmStock: profile.name, iso: value })));
+  const tooMany = frames.length > MAX_BRACKET_FRAMES;
+
+  return (
+    <section className="bg-[#2a2a2a] border-l-8 border-kodak-red p-6 shadow-2xl space-y-4 theme-transition">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-black text-kodak-yellow uppercase tracking-[0.2em] theme-transition">Bracketing</label>
+        <span className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">{frames.length} Frames</span>
+      </div>
+
+      <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto custom-scrollbar pr-1">
+        {profiles.map(profile => (
+          <button
+            key={profile.name}
+            onClick={() => setStocks(prev => toggle(prev, profile.name))}
+            title={`Include ${profile.name} in the bracket`}
+            className={`px-2 py-1 text-[9px] font-black uppercase tracking-widest border transition-all theme-transition ${stocks.includes(profile.name) ? 'bg-kodak-red border-kodak-yellow text-kodak-yellow' : 'bg-kodak-dark border-kodak-red/30 text-kodak-red/50 hover:border-kodak-red'}`}
+          >
+            {profile.name.split(' (')[0]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        {ISO_VALUES.map(value => (
+          <button
+            key={value}
+            onClick={() => setIsos(prev => toggle(prev, value).sort((a, b) => a - b))}
+            title={`Include ISO ${value} in the bracket`}
+            className={`py-1 font-display text-lg border-2 transition-all theme-transition ${isos.includes(value) ? 'bg-kodak-red border-kodak-yellow text-kodak-yellow' : 'bg-kodak-dark border-kodak-red/50 text-kodak-red/50'}`}
+          >
+            {value}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onDevelop(frames)}
+        disabled={disabled || frames.length === 0 || tooMany}
+        title="Develop the current negative once per stock/ISO combination and compare the results side by side"
+        className="w-full py-3 bg-kodak-yellow text-kodak-dark font-display text-2xl uppercase border-b-4 border-black/20 disabled:opacity-30 disabled:cursor-not-allowed active:translate-y-1 active:border-b-0 transition-all theme-transition"
+      >
+        Develop Bracket
+      </button>
+      {tooMany && (
+        <p className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">Brackets are limited to {MAX_BRACKET_FRAMES} frames.</p>
+      )}
+    </section>
+  );
+};
+
+export default BracketPanel;
@@ -0,0 +1,83 @@
+import React, { useRef } from 'react';
+
+interface ColorGradePanelProps {
+  lutTitle: string;
+  isCustom: boolean;
+  strength: number;
+  error?: string | null;
+  onStrengthChange: (value: number) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onReset: () => void;
+}
+
+const ColorGradePanel: React.FC<ColorGradePanelProps> = ({
+  lutTitle,
+  isCustom,
+  strength,
+  error,
+  onStrengthChange,
+  onImport,
+  onExport,
+  onReset
+}) => {
+  const cubeInputRef = useRef<HTMLInputElement>(null);
+
+  const handleCubeSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-black text-kodak-yellow uppercase tracking-[0.2em] theme-transition">Color Grade (LUT)</label>
+        <span className="font-display text-2xl text-kodak-red theme-transition" title="Blend of the stock LUT applied locally to each developed print">{strength === 0 ? 'Off' : `${strength}%`}</span>
+      </div>
+      <p className="text-[10px] font-bold text-kodak-cream/60 uppercase tracking-widest truncate" title={lutTitle}>
+        {isCustom && <span className="text-kodak-yellow">Imported // </span>}{lutTitle}
+      </p>
+      <input
+        type="range"
+        min="0"
+        max="100"
+        step="5"
+        value={strength}
+        onChange={(e) => onStrengthChange(parseInt(e.target.value))}
+        title="Slide to grade every developed print through the stock LUT. 0 leaves the color to the Emulsion Engine."
+        className="w-full h-2 bg-kodak-dark rounded-lg appearance-none cursor-pointer border-2 border-kodak-red accent-kodak-yellow theme-transition"
+      />
+      <div className="grid grid-cols-3 gap-2">
+        <input type="file" ref={cubeInputRef} onChange={handleCubeSelected} className="hidden" accept=".cube" />
+        <button
+          onClick={() => cubeInputRef.current?.click()}
+          title="Replace this stock's built-in grade with your own .cube LUT"
+          className="py-2 bg-kodak-dark text-kodak-yellow font-display text-lg border-2 border-kodak-red/50 hover:border-kodak-red transition-all theme-transition"
+        >
+          Import
+        </button>
+        <button
+          onClick={onExport}
+          title="Download the active LUT for this stock as a .cube file"
+          className="py-2 bg-kodak-dark text-kodak-yellow font-display text-lg border-2 border-kodak-red/50 hover:border-kodak-red transition-all theme-transition"
+        >
+          Export
+        </button>
+        <button
+          onClick={onReset}
+          disabled={!isCustom}
+          title="Discard the imported LUT and return to the built-in grade"
+          className="py-2 bg-kodak-dark text-kodak-yellow font-display text-lg border-2 border-kodak-red/50 hover:border-kodak-red disabled:opacity-30 transition-all theme-transition"
+        >
+          Reset
+        </button>
+      </div>
+      {error && (
+        <p className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default ColorGradePanel;
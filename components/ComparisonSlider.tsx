@@ -1,28 +1,58 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AspectRatio } from '../types';
+import { AspectRatio, ComparisonMode, PanOffset } from '../types';
+import { computeDifference, renderHeatmap, DifferenceMap } from '../services/imageAnalysis';
 
 interface ComparisonSliderProps {
   original: string;
   processed: string;
   aspectRatio: AspectRatio;
   zoomScale?: number;
+  // Controlled pan, so a parent can lock several sliders together; uncontrolled when omitted
+  pan?: PanOffset;
+  onPanChange?: (pan: PanOffset) => void;
 }
 
-const ComparisonSlider: React.FC<ComparisonSliderProps> = ({ original, processed, aspectRatio, zoomScale = 1 }) => {
+const MODES: { id: ComparisonMode; label: string; title: string }[] = [
+  { id: 'wipe', label: 'Wipe', title: 'Drag a divider across the frame' },
+  { id: 'split', label: 'Split', title: 'Drag a divider down the frame' },
+  { id: 'onion', label: 'Onion', title: 'Lay the synthetic frame over the print at adjustable opacity' },
+  { id: 'blink', label: 'Blink', title: 'Alternate between both frames to catch shifts' },
+  { id: 'difference', label: 'Diff', title: 'Heatmap of per-pixel change between both frames' }
+];
+
+const BLINK_RATES = [1, 2, 4, 8];
+
+const ComparisonSlider: React.FC<ComparisonSliderProps> = ({ original, processed, aspectRatio, zoomScale = 1, pan: controlledPan, onPanChange }) => {
+  const [mode, setMode] = useState<ComparisonMode>('wipe');
   const [position, setPosition] = useState(50);
   const [isDraggingSlider, setIsDraggingSlider] = useState(false);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [localPan, setLocalPan] = useState<PanOffset>({ x: 0, y: 0 });
   const [isPanning, setIsPanning] = useState(false);
   const [containerWidth, setContainerWidth] = useState(0);
-  
+  const [opacity, setOpacity] = useState(50);
+  const [blinkRate, setBlinkRate] = useState(2);
+  const [blinkOriginal, setBlinkOriginal] = useState(false);
+  const [gain, setGain] = useState(4);
+  const [difference, setDifference] = useState<DifferenceMap | null>(null);
+
   const containerRef = useRef<HTMLDivElement>(null);
+  const heatmapRef = useRef<HTMLCanvasElement>(null);
   const lastMousePos = useRef({ x: 0, y: 0 });
 
+  const pan = controlledPan ?? localPan;
+  const setPan = (next: PanOffset) => {
+    if (onPanChange) onPanChange(next);
+    if (!controlledPan) setLocalPan(next);
+  };
+
   const getAspectRatioValue = () => {
     const [w, h] = aspectRatio.split(':').map(Number);
     return h / w;
   };
 
+  // The frame's height comes from its bottom padding, so derive it from the width
+  const containerHeight = containerWidth * getAspectRatioValue();
+
   useEffect(() => {
     if (!containerRef.current) return;
     const obs = new ResizeObserver((entries) => {
@@ -35,11 +65,39 @@ const ComparisonSlider: React.FC<ComparisonSliderProps> = ({ original, processed
   }, []);
 
   useEffect(() => {
-    if (zoomScale === 1) {
+    if (zoomScale === 1 && (pan.x !== 0 || pan.y !== 0)) {
       setPan({ x: 0, y: 0 });
     }
   }, [zoomScale]);
 
+  useEffect(() => {
+    if (mode !== 'blink') return;
+    const timer = setInterval(() => setBlinkOriginal(prev => !prev), 1000 / (blinkRate * 2));
+    return () => clearInterval(timer);
+  }, [mode, blinkRate]);
+
+  // The difference map is only worth computing once the mode is opened, then kept until the frames change
+  useEffect(() => {
+    setDifference(null);
+  }, [original, processed]);
+
+  useEffect(() => {
+    if (mode !== 'difference' || difference) return;
+    let cancelled = false;
+    computeDifference(original, processed)
+      .then(map => { if (!cancelled) setDifference(map); })
+      .catch(err => console.error("Could not compute the difference map", err));
+    return () => { cancelled = true; };
+  }, [mode, difference, original, processed]);
+
+  useEffect(() => {
+    const canvas = heatmapRef.current;
+    if (!canvas || !difference) return;
+    canvas.width = difference.width;
+    canvas.height = difference.height;
+    canvas.getContext('2d')?.putImageData(renderHeatmap(difference, gain), 0, 0);
+  }, [difference, gain, mode]);
+
   const handleMouseMove = (e: React.MouseEvent | React.TouchEvent) => {
     const container = containerRef.current?.getBoundingClientRect();
     if (!container) return;
@@ -48,17 +106,19 @@ const ComparisonSlider: React.FC<ComparisonSliderProps> = ({ original, processed
     const clientY = 'touches' in e ? (e as React.TouchEvent).touches[0].clientY : (e as React.MouseEvent).clientY;
 
     if (isDraggingSlider) {
-      const x = ((clientX - container.left) / container.width) * 100;
-      setPosition(Math.min(Math.max(x, 0), 100));
+      const value = mode === 'split'
+        ? ((clientY - container.top) / container.height) * 100
+        : ((clientX - container.left) / container.width) * 100;
+      setPosition(Math.min(Math.max(value, 0), 100));
     } else if (isPanning && zoomScale > 1) {
       const dx = clientX - lastMousePos.current.x;
       const dy = clientY - lastMousePos.current.y;
-      
-      setPan(prev => ({
-        x: prev.x + dx,
-        y: prev.y + dy
-      }));
-      
+
+      setPan({
+        x: pan.x + dx / container.width,
+        y: pan.y + dy / container.height
+      });
+
       lastMousePos.current = { x: clientX, y: clientY };
     }
   };
@@ -82,14 +142,28 @@ const ComparisonSlider: React.FC<ComparisonSliderProps> = ({ original, processed
     setIsPanning(false);
   };
 
-  const transformStyle = { 
-    transform: `scale(${zoomScale}) translate(${pan.x / zoomScale}px, ${pan.y / zoomScale}px)`,
+  // Keeps toolbar clicks from starting a pan underneath
+  const stopPointer = (e: React.MouseEvent | React.TouchEvent) => e.stopPropagation();
+
+  const transformStyle = {
+    transform: `scale(${zoomScale}) translate(${(pan.x * containerWidth) / zoomScale}px, ${(pan.y * containerHeight) / zoomScale}px)`,
     transformOrigin: 'center center',
     transition: isPanning ? 'none' : 'transform 0.2s cubic-bezier(0.4, 0, 0.2, 1)'
   };
 
+  const hasDivider = mode === 'wipe' || mode === 'split';
+  const showsOriginal = mode === 'blink' && blinkOriginal;
+
+  const originalImage = (
+    <img
+      src={original}
+      alt="Synthetic Frame"
+      className="absolute inset-0 w-full h-full object-cover"
+    />
+  );
+
   return (
-    <div 
+    <div
       ref={containerRef}
       className={`relative w-full overflow-hidden border-4 border-kodak-dark select-none bg-kodak-dark group shadow-2xl theme-transition ${zoomScale > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'}`}
       style={{ paddingBottom: `${getAspectRatioValue() * 100}%` }}
@@ -103,59 +177,139 @@ const ComparisonSlider: React.FC<ComparisonSliderProps> = ({ original, processed
     >
       {/* BACKGROUND LAYER: Developed Image */}
       <div className="absolute inset-0 w-full h-full pointer-events-none" style={transformStyle}>
-        <img 
-          src={processed} 
-          alt="Developed Negative" 
+        <img
+          src={processed}
+          alt="Developed Negative"
           className="absolute inset-0 w-full h-full object-cover"
         />
       </div>
 
-      {/* OVERLAY LAYER: Original Image */}
-      <div 
-        className="absolute inset-0 z-10 overflow-hidden pointer-events-none"
-        style={{ width: `${position}%` }}
-      >
-        <div style={{ width: containerWidth, height: '100%', position: 'relative' }}>
-          <div className="absolute inset-0 w-full h-full" style={transformStyle}>
-            <img 
-              src={original} 
-              alt="Synthetic Frame" 
-              className="absolute inset-0 w-full h-full object-cover"
-            />
+      {/* OVERLAY LAYER: Original Image, clipped by the divider or faded in */}
+      {mode === 'wipe' && (
+        <div
+          className="absolute inset-0 z-10 overflow-hidden pointer-events-none"
+          style={{ width: `${position}%` }}
+        >
+          <div style={{ width: containerWidth, height: '100%', position: 'relative' }}>
+            <div className="absolute inset-0 w-full h-full" style={transformStyle}>{originalImage}</div>
           </div>
         </div>
-      </div>
+      )}
+      {mode === 'split' && (
+        <div
+          className="absolute inset-0 z-10 overflow-hidden pointer-events-none"
+          style={{ height: `${position}%` }}
+        >
+          <div style={{ width: '100%', height: containerHeight, position: 'relative' }}>
+            <div className="absolute inset-0 w-full h-full" style={transformStyle}>{originalImage}</div>
+          </div>
+        </div>
+      )}
+      {(mode === 'onion' || mode === 'blink') && (
+        <div
+          className="absolute inset-0 z-10 pointer-events-none"
+          style={{ ...transformStyle, opacity: mode === 'onion' ? opacity / 100 : showsOriginal ? 1 : 0 }}
+        >
+          {originalImage}
+        </div>
+      )}
+      {mode === 'difference' && (
+        <div className="absolute inset-0 z-10 pointer-events-none bg-black" style={transformStyle}>
+          <canvas ref={heatmapRef} className={`absolute inset-0 w-full h-full object-cover ${difference ? '' : 'invisible'}`} />
+          {!difference && (
+            <div className="absolute inset-0 flex items-center justify-center font-display text-2xl text-kodak-yellow uppercase animate-pulse">Measuring Drift...</div>
+          )}
+        </div>
+      )}
 
       {/* SLIDER CONTROLS - Highest Priority Z-Index */}
-      <div 
-        className="absolute top-0 bottom-0 w-1.5 z-50 group/slider"
-        style={{ left: `calc(${position}% - 0.75px)`, backgroundColor: 'var(--theme-accent)' }}
-      >
-        {/* Invisible Hit Area: Extended width for better UX */}
-        <div 
-           className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-24 h-full cursor-col-resize z-[60]"
-           onMouseDown={startDraggingSlider}
-           onTouchStart={startDraggingSlider}
-        />
-        
-        {/* Visual Handle: Custom Diamond UI */}
-        <div 
-          className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-12 h-12 shadow-[0_0_20px_rgba(0,0,0,0.5)] flex items-center justify-center pointer-events-none rotate-45 border-4 transition-transform group-hover/slider:scale-110 z-[70]"
-          style={{ backgroundColor: 'var(--theme-brand)', borderColor: 'var(--theme-accent)' }}
+      {hasDivider && (
+        <div
+          className={`absolute z-50 group/slider ${mode === 'wipe' ? 'top-0 bottom-0 w-1.5' : 'left-0 right-0 h-1.5'}`}
+          style={mode === 'wipe'
+            ? { left: `calc(${position}% - 0.75px)`, backgroundColor: 'var(--theme-accent)' }
+            : { top: `calc(${position}% - 0.75px)`, backgroundColor: 'var(--theme-accent)' }}
         >
-          <svg className="w-6 h-6 -rotate-45" style={{ color: 'var(--theme-accent)' }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M8 7l-4 4m0 0l4 4m-4-4h18" />
-          </svg>
+          {/* Invisible Hit Area: Extended width for better UX */}
+          <div
+             className={`absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[60] ${mode === 'wipe' ? 'w-24 h-full cursor-col-resize' : 'w-full h-24 cursor-row-resize'}`}
+             onMouseDown={startDraggingSlider}
+             onTouchStart={startDraggingSlider}
+          />
+
+          {/* Visual Handle: Custom Diamond UI */}
+          <div
+            className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-12 h-12 shadow-[0_0_20px_rgba(0,0,0,0.5)] flex items-center justify-center pointer-events-none rotate-45 border-4 transition-transform group-hover/slider:scale-110 z-[70]"
+            style={{ backgroundColor: 'var(--theme-brand)', borderColor: 'var(--theme-accent)' }}
+          >
+            <svg className={`w-6 h-6 ${mode === 'wipe' ? '-rotate-45' : 'rotate-45'}`} style={{ color: 'var(--theme-accent)' }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M8 7l-4 4m0 0l4 4m-4-4h18" />
+            </svg>
+          </div>
         </div>
+      )}
+
+      {/* MODE TOOLBAR */}
+      <div
+        className="absolute top-4 left-4 z-[80] flex flex-col gap-2 items-start"
+        onMouseDown={stopPointer}
+        onTouchStart={stopPointer}
+      >
+        <div className="flex bg-kodak-dark/90 border-2 border-kodak-red backdrop-blur-sm theme-transition">
+          {MODES.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setMode(option.id)}
+              title={option.title}
+              className={`px-2 py-1 text-[9px] font-black uppercase tracking-widest transition-colors theme-transition ${mode === option.id ? 'bg-kodak-red text-kodak-yellow' : 'text-kodak-yellow/60 hover:text-kodak-yellow'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {mode === 'onion' && (
+          <label className="flex items-center gap-2 px-2 py-1 bg-kodak-dark/90 border border-kodak-red/50 text-[9px] font-black text-kodak-yellow uppercase tracking-widest theme-transition" title="Opacity of the synthetic frame over the print">
+            Opacity
+            <input type="range" min={0} max={100} value={opacity} onChange={(e) => setOpacity(parseInt(e.target.value))} className="w-24 accent-kodak-yellow" />
+            <span className="w-8 text-right">{opacity}%</span>
+          </label>
+        )}
+        {mode === 'blink' && (
+          <label className="flex items-center gap-2 px-2 py-1 bg-kodak-dark/90 border border-kodak-red/50 text-[9px] font-black text-kodak-yellow uppercase tracking-widest theme-transition" title="How many times per second both frames are shown">
+            Rate
+            <select value={blinkRate} onChange={(e) => setBlinkRate(parseInt(e.target.value))} className="bg-kodak-dark text-kodak-yellow outline-none">
+              {BLINK_RATES.map(rate => <option key={rate} value={rate}>{rate} Hz</option>)}
+            </select>
+          </label>
+        )}
+        {mode === 'difference' && (
+          <label className="flex items-center gap-2 px-2 py-1 bg-kodak-dark/90 border border-kodak-red/50 text-[9px] font-black text-kodak-yellow uppercase tracking-widest theme-transition" title="Amplify small differences so subtle drift becomes visible">
+            Gain
+            <input type="range" min={1} max={32} value={gain} onChange={(e) => setGain(parseInt(e.target.value))} className="w-24 accent-kodak-yellow" />
+            <span className="w-8 text-right">{gain}×</span>
+          </label>
+        )}
       </div>
 
       {/* ANNOTATIONS */}
-      <div className="absolute bottom-4 left-4 z-20 px-3 py-1 bg-kodak-dark/90 backdrop-blur-md text-kodak-red font-display text-sm md:text-xl uppercase tracking-widest border-2 border-kodak-red theme-transition pointer-events-none shadow-lg">
-        Synthetic
-      </div>
-      <div className="absolute bottom-4 right-4 z-20 px-3 py-1 bg-kodak-red text-kodak-yellow font-display text-sm md:text-xl uppercase tracking-widest border-2 border-kodak-yellow theme-transition pointer-events-none shadow-lg">
-        Developed
-      </div>
+      {mode === 'difference' ? (
+        <div className="absolute bottom-4 left-4 z-20 px-3 py-1 bg-kodak-dark/90 backdrop-blur-md text-kodak-yellow font-display text-sm md:text-xl uppercase tracking-widest border-2 border-kodak-yellow theme-transition pointer-events-none shadow-lg">
+          Difference
+        </div>
+      ) : (
+        <>
+          {(hasDivider || mode === 'onion' || showsOriginal) && (
+            <div className={`absolute left-4 z-20 px-3 py-1 bg-kodak-dark/90 backdrop-blur-md text-kodak-red font-display text-sm md:text-xl uppercase tracking-widest border-2 border-kodak-red theme-transition pointer-events-none shadow-lg ${mode === 'split' ? 'top-16' : 'bottom-4'}`}>
+              Synthetic
+            </div>
+          )}
+          {(mode !== 'blink' || !showsOriginal) && (
+            <div className="absolute bottom-4 right-4 z-20 px-3 py-1 bg-kodak-red text-kodak-yellow font-display text-sm md:text-xl uppercase tracking-widest border-2 border-kodak-yellow theme-transition pointer-events-none shadow-lg">
+              Developed
+            </div>
+          )}
+        </>
+      )}
 
       {/* INTERACTION HINT */}
       {zoomScale > 1 && !isPanning && !isDraggingSlider && (
@@ -167,4 +321,4 @@ const ComparisonSlider: React.FC<ComparisonSliderProps> = ({ original, processed
   );
 };
 
-export default ComparisonSlider;
\ No newline at end of file
+export default ComparisonSlider;
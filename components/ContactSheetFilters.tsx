@@ -0,0 +1,118 @@
+import React from 'react';
+import { AspectRatio, FilmStock, HistoryFilter, HistorySort, ImageSize, ISOValue } from '../types';
+import { ISO_VALUES } from '../services/filmStockRegistry';
+import { HISTORY_SORTS, isFilterActive } from '../services/historyFilter';
+
+interface ContactSheetFiltersProps {
+  filter: HistoryFilter;
+  sort: HistorySort;
+  stocks: FilmStock[];
+  onChange: (filter: HistoryFilter) => void;
+  onSortChange: (sort: HistorySort) => void;
+  onReset: () => void;
+}
+
+const labelClass = 'text-[9px] font-black text-kodak-red uppercase tracking-widest theme-transition';
+const fieldClass = 'w-full bg-kodak-dark border border-kodak-red/30 p-2 text-kodak-yellow/80 text-sm outline-none theme-transition';
+
+const ContactSheetFilters: React.FC<ContactSheetFiltersProps> = ({ filter, sort, stocks, onChange, onSortChange, onReset }) => {
+  const update = (patch: Partial<HistoryFilter>) => onChange({ ...filter, ...patch });
+
+  return (
+    <div className="p-4 bg-[#2a2a2a] border-l-8 border-kodak-red space-y-3 theme-transition">
+      <div className="flex flex-col md:flex-row gap-3">
+        <input
+          type="search"
+          value={filter.text}
+          onChange={(e) => update({ text: e.target.value })}
+          placeholder="Search prompts..."
+          title="Match prints whose development prompt contains every word"
+          className={`${fieldClass} flex-1`}
+        />
+        <select
+          value={sort}
+          onChange={(e) => onSortChange(e.target.value as HistorySort)}
+          title="Order of prints on the contact sheet"
+          className={`${fieldClass} md:w-48 font-display text-lg`}
+        >
+          {HISTORY_SORTS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        <button
+          onClick={onReset}
+          disabled={!isFilterActive(filter) && sort === 'newest'}
+          title="Show every stored print, newest first"
+          className="px-4 py-2 bg-kodak-dark text-kodak-yellow font-display text-lg border-2 border-kodak-red/50 hover:border-kodak-red disabled:opacity-30 transition-all theme-transition"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+        <div className="space-y-1 col-span-2 md:col-span-1 lg:col-span-2">
+          <p className={labelClass}>Stock</p>
+          <select value={filter.filmStock ?? ''} onChange={(e) => update({ filmStock: e.target.value || undefined })} className={fieldClass}>
+            <option value="">All Stocks</option>
+            {stocks.map(stock => <option key={stock} value={stock}>{stock}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <p className={labelClass}>ISO</p>
+          <select value={filter.iso ?? ''} onChange={(e) => update({ iso: e.target.value ? Number(e.target.value) as ISOValue : undefined })} className={fieldClass}>
+            <option value="">Any</option>
+            {ISO_VALUES.map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <p className={labelClass}>Size</p>
+          <select value={filter.size ?? ''} onChange={(e) => update({ size: (e.target.value || undefined) as ImageSize | undefined })} className={fieldClass}>
+            <option value="">Any</option>
+            {(['1K', '2K', '4K'] as ImageSize[]).map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <p className={labelClass}>Aspect</p>
+          <select value={filter.aspectRatio ?? ''} onChange={(e) => update({ aspectRatio: (e.target.value || undefined) as AspectRatio | undefined })} className={fieldClass}>
+            <option value="">Any</option>
+            {(['1:1', '3:4', '4:3', '9:16', '16:9'] as AspectRatio[]).map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1 col-span-2">
+          <p className={labelClass}>Skin Detail {filter.skinMin}-{filter.skinMax}%</p>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={0}
+              max={filter.skinMax}
+              value={filter.skinMin}
+              onChange={(e) => update({ skinMin: Math.min(Math.max(parseInt(e.target.value) || 0, 0), filter.skinMax) })}
+              title="Lowest skin detail to include"
+              className={fieldClass}
+            />
+            <input
+              type="number"
+              min={filter.skinMin}
+              max={100}
+              value={filter.skinMax}
+              onChange={(e) => update({ skinMax: Math.max(Math.min(parseInt(e.target.value) || 0, 100), filter.skinMin) })}
+              title="Highest skin detail to include"
+              className={fieldClass}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 md:w-1/2">
+        <div className="space-y-1">
+          <p className={labelClass}>Developed From</p>
+          <input type="date" value={filter.from ?? ''} max={filter.to} onChange={(e) => update({ from: e.target.value || undefined })} className={fieldClass} />
+        </div>
+        <div className="space-y-1">
+          <p className={labelClass}>Developed To</p>
+          <input type="date" value={filter.to ?? ''} min={filter.from} onChange={(e) => update({ to: e.target.value || undefined })} className={fieldClass} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContactSheetFilters;
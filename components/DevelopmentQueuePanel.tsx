@@ -0,0 +1,94 @@
+import React from 'react';
+import { BatchJob, BatchJobStatus } from '../types';
+import { MAX_CONCURRENCY } from '../services/developmentQueue';
+
+interface DevelopmentQueuePanelProps {
+  jobs: BatchJob[];
+  paused: boolean;
+  concurrency: number;
+  onPauseToggle: () => void;
+  onConcurrencyChange: (value: number) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<BatchJobStatus, string> = {
+  queued: 'Queued',
+  developing: 'Developing',
+  done: 'Done',
+  rejected: 'Rejected'
+};
+
+const STATUS_STYLES: Record<BatchJobStatus, string> = {
+  queued: 'border-kodak-yellow/30 text-kodak-yellow/50',
+  developing: 'border-kodak-yellow text-kodak-yellow animate-pulse',
+  done: 'border-kodak-yellow bg-kodak-yellow text-kodak-dark',
+  rejected: 'border-kodak-red bg-kodak-red text-kodak-yellow'
+};
+
+const DevelopmentQueuePanel: React.FC<DevelopmentQueuePanelProps> = ({
+  jobs,
+  paused,
+  concurrency,
+  onPauseToggle,
+  onConcurrencyChange,
+  onClearFinished
+}) => {
+  const count = (status: BatchJobStatus) => jobs.filter(job => job.status === status).length;
+  const finished = count('done') + count('rejected');
+
+  return (
+    <section className="bg-[#2a2a2a] border-l-8 border-kodak-red p-6 shadow-2xl space-y-4 theme-transition">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-black text-kodak-yellow uppercase tracking-[0.2em] theme-transition">Development Queue</label>
+        <span className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">{finished}/{jobs.length} Fixed</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <button
+          onClick={onPauseToggle}
+          title={paused ? 'Resume developing queued frames' : 'Hold queued frames; frames already in the tank will finish'}
+          className="col-span-1 py-2 bg-kodak-red text-kodak-yellow font-display text-lg border-b-4 border-black/20 active:translate-y-1 active:border-b-0 transition-all theme-transition"
+        >
+          {paused ? 'Resume' : 'Pause'}
+        </button>
+        <select
+          value={concurrency}
+          onChange={(e) => onConcurrencyChange(parseInt(e.target.value))}
+          title="Number of frames developed at the same time"
+          className="col-span-1 bg-kodak-dark border border-kodak-red/30 p-2 text-kodak-yellow/80 font-display text-lg outline-none theme-transition"
+        >
+          {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+            <option key={n} value={n}>{n} Tank{n > 1 ? 's' : ''}</option>
+          ))}
+        </select>
+        <button
+          onClick={onClearFinished}
+          disabled={finished === 0}
+          title="Remove finished and rejected frames from the queue"
+          className="col-span-1 py-2 bg-kodak-dark text-kodak-yellow font-display text-lg border-2 border-kodak-yellow/40 disabled:opacity-30 hover:border-kodak-yellow transition-all theme-transition"
+        >
+          Clear
+        </button>
+      </div>
+
+      <ul className="space-y-2 max-h-[320px] overflow-y-auto pr-1 custom-scrollbar">
+        {jobs.map(job => (
+          <li key={job.id} className="flex items-center gap-3 bg-kodak-dark p-2 border border-white/5" title={job.error || `${job.recipe.filmStock} @ ISO ${job.recipe.iso}`}>
+            <img src={job.originalUrl} alt={job.fileName} className="w-10 h-10 object-cover shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-bold text-kodak-cream/80 truncate">{job.fileName}</p>
+              <p className="text-[9px] font-black text-kodak-red uppercase tracking-widest truncate theme-transition">
+                {job.status === 'rejected' && job.error ? job.error : `${job.recipe.filmStock} @ ISO ${job.recipe.iso}`}
+              </p>
+            </div>
+            <span className={`shrink-0 px-2 py-0.5 border-2 text-[9px] font-black uppercase tracking-widest theme-transition ${STATUS_STYLES[job.status]}`}>
+              {STATUS_LABELS[job.status]}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default DevelopmentQueuePanel;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { DriftMetrics } from '../types';
+import { driftWarnings } from '../services/imageAnalysis';
+
+interface DriftBadgeProps {
+  metrics?: DriftMetrics;
+  className?: string;
+}
+
+// Flags prints whose structure or color strayed from the source; renders nothing for prints that kept it.
+const DriftBadge: React.FC<DriftBadgeProps> = ({ metrics, className = '' }) => {
+  const warnings = metrics ? driftWarnings(metrics) : [];
+  if (!metrics || warnings.length === 0) return null;
+
+  const summary = `SSIM ${metrics.ssim} · Edges ${Math.round(metrics.edgeDifference * 100)}% · ΔE ${metrics.colorShift.deltaE}`;
+  return (
+    <span
+      title={`Possible identity drift:\n${warnings.join('\n')}\n${summary}`}
+      className={`px-2 py-1 bg-kodak-red text-kodak-yellow text-[9px] font-black uppercase tracking-widest border border-kodak-yellow shadow-lg theme-transition ${className}`}
+    >
+      ⚠ Drift
+    </span>
+  );
+};
+
+export default DriftBadge;
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { BuiltInFilmStock, FilmStock, FilmStockProfile, GrainCharacter, ISOValue, ThemeConfig } from '../types';
+import { BUILT_IN_STOCKS, ISO_VALUES } from '../services/filmStockRegistry';
+import { getBuiltInGrain } from '../services/grainEngine';
+
+interface FilmStockEditorProps {
+  initial: FilmStockProfile;
+  takenNames: FilmStock[];
+  onSave: (profile: FilmStockProfile, previousName?: FilmStock) => void;
+  onDelete?: (name: FilmStock) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'text-[10px] font-black text-kodak-yellow uppercase tracking-[0.2em] theme-transition';
+const fieldClass = 'w-full bg-kodak-dark border border-kodak-red/30 p-2 text-kodak-yellow/80 outline-none theme-transition';
+
+const FilmStockEditor: React.FC<FilmStockEditorProps> = ({ initial, takenNames, onSave, onDelete, onClose }) => {
+  const [profile, setProfile] = useState<FilmStockProfile>(initial);
+  const [error, setError] = useState<string | null>(null);
+  const isNew = !initial.name;
+
+  const update = (patch: Partial<FilmStockProfile>) => setProfile(prev => ({ ...prev, ...patch }));
+  const updateTheme = (patch: Partial<ThemeConfig>) => setProfile(prev => ({ ...prev, theme: { ...prev.theme, ...patch } }));
+  const grain = profile.grain ?? getBuiltInGrain(profile.baseStock ?? profile.name);
+  const updateGrain = (patch: Partial<GrainCharacter>) => setProfile(prev => ({ ...prev, grain: { ...grain, ...patch } }));
+
+  const toggleIso = (value: ISOValue) => {
+    const next = profile.isoRange.includes(value)
+      ? profile.isoRange.filter(v => v !== value)
+      : [...profile.isoRange, value].sort((a, b) => a - b);
+    update({ isoRange: next });
+  };
+
+  const handleSave = () => {
+    const name = profile.name.trim();
+    if (!name) {
+      setError('Give the stock a name.');
+      return;
+    }
+    if (name !== initial.name && takenNames.includes(name)) {
+      setError(`"${name}" already exists in the film registry.`);
+      return;
+    }
+    if (profile.isoRange.length === 0) {
+      setError('Allow at least one ISO speed.');
+      return;
+    }
+    onSave({ ...profile, name, builtIn: false, createdAt: profile.createdAt ?? Date.now() }, isNew ? undefined : initial.name);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/90 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto custom-scrollbar bg-[#2a2a2a] border-4 border-kodak-red p-8 shadow-[20px_20px_0px_#111] space-y-6 theme-transition">
+        <div className="flex items-center gap-4 border-b-2 border-kodak-yellow pb-4">
+          <div
+            className="w-10 h-10 flex items-center justify-center font-display text-2xl rotate-3 border-2"
+            style={{ backgroundColor: profile.theme.logoBg, color: profile.theme.logoText, borderColor: profile.theme.brand }}
+          >
+            {profile.theme.logo || '?'}
+          </div>
+          <h2 className="font-display text-4xl text-kodak-yellow uppercase tracking-tighter">{isNew ? 'New Film Stock' : 'Edit Film Stock'}</h2>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className={labelClass}>Stock Name</label>
+            <input value={profile.name} onChange={(e) => update({ name: e.target.value })} placeholder="Kodak Portra 800" className={`${fieldClass} font-display text-lg`} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Manufacturer</label>
+            <input value={profile.manufacturer} onChange={(e) => update({ manufacturer: e.target.value })} className={`${fieldClass} font-display text-lg`} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Prompt Characteristics</label>
+          <textarea
+            value={profile.characteristics}
+            onChange={(e) => update({ characteristics: e.target.value })}
+            rows={3}
+            placeholder="Describe the palette, contrast and highlight behavior the Emulsion Engine should reproduce."
+            className={`${fieldClass} text-sm`}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className={labelClass}>Allowed ISO</label>
+            <div className="grid grid-cols-4 gap-2">
+              {ISO_VALUES.map(value => (
+                <button
+                  key={value}
+                  onClick={() => toggleIso(value)}
+                  className={`py-2 font-display text-lg border-2 transition-all ${profile.isoRange.includes(value) ? 'bg-kodak-red border-kodak-yellow text-kodak-yellow' : 'bg-kodak-dark border-kodak-red/50 text-kodak-red/50'}`}
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Base Look (LUT)</label>
+            <select
+              value={profile.baseStock ?? ''}
+              onChange={(e) => update({ baseStock: (e.target.value || undefined) as BuiltInFilmStock | undefined })}
+              title="Built-in stock whose LUT and grain seed this profile. Import a .cube for the new stock to override the grade."
+              className={`${fieldClass} font-display text-lg`}
+            >
+              <option value="">Neutral</option>
+              {BUILT_IN_STOCKS.map(stock => <option key={stock} value={stock}>{stock}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-3 cursor-pointer">
+          <input type="checkbox" checked={profile.monochrome} onChange={(e) => update({ monochrome: e.target.checked, grain: e.target.checked ? { ...grain, chroma: 0 } : profile.grain })} className="accent-kodak-yellow w-4 h-4" />
+          <span className={labelClass}>Monochrome Emulsion</span>
+        </label>
+
+        <div className="space-y-3 pt-4 border-t-2 border-kodak-red/20">
+          <div className="flex items-center justify-between">
+            <label className={labelClass}>Grain Profile</label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={!profile.grain} onChange={(e) => update({ grain: e.target.checked ? undefined : grain })} className="accent-kodak-yellow" />
+              <span className="text-[9px] font-black text-kodak-red uppercase tracking-widest">Inherit from base</span>
+            </label>
+          </div>
+          <div className={`grid grid-cols-1 md:grid-cols-3 gap-4 ${profile.grain ? '' : 'opacity-40 pointer-events-none'}`}>
+            {([
+              ['character', 'Intensity', 0.3, 2],
+              ['sizeBias', 'Clump Size', 0.5, 1.6],
+              ['chroma', 'Color Grain', 0, 1]
+            ] as [keyof GrainCharacter, string, number, number][]).map(([key, label, min, max]) => (
+              <div key={key} className="space-y-1">
+                <div className="flex justify-between text-[9px] font-black text-kodak-red uppercase tracking-widest">
+                  <span>{label}</span>
+                  <span>{grain[key].toFixed(2)}</span>
+                </div>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={0.05}
+                  value={grain[key]}
+                  onChange={(e) => updateGrain({ [key]: parseFloat(e.target.value) })}
+                  className="w-full h-2 bg-kodak-dark rounded-lg appearance-none cursor-pointer border-2 border-kodak-red accent-kodak-yellow"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3 pt-4 border-t-2 border-kodak-red/20">
+          <label className={labelClass}>Darkroom Theme</label>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {([
+              ['brand', 'Brand'],
+              ['accent', 'Accent'],
+              ['logoBg', 'Logo Bg'],
+              ['logoText', 'Logo Ink']
+            ] as [keyof ThemeConfig, string][]).map(([key, label]) => (
+              <div key={key} className="space-y-1">
+                <p className="text-[9px] font-black text-kodak-red uppercase tracking-widest">{label}</p>
+                <input type="color" value={profile.theme[key]} onChange={(e) => updateTheme({ [key]: e.target.value })} className="w-full h-10 bg-kodak-dark border border-kodak-red/30 cursor-pointer" />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <p className="text-[9px] font-black text-kodak-red uppercase tracking-widest">Logo</p>
+              <input value={profile.theme.logo} maxLength={1} onChange={(e) => updateTheme({ logo: e.target.value.toUpperCase() })} className={`${fieldClass} h-10 text-center font-display text-xl`} />
+            </div>
+          </div>
+        </div>
+
+        {error && <p className="text-[10px] font-black text-kodak-red uppercase tracking-widest">{error}</p>}
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <button
+            onClick={handleSave}
+            className="flex-1 py-4 bg-kodak-red text-kodak-yellow font-display text-2xl uppercase border-b-4 border-black/20 hover:brightness-110 active:translate-y-1 active:border-b-0 transition-all"
+          >
+            Save To Registry
+          </button>
+          {!isNew && onDelete && (
+            <button
+              onClick={() => onDelete(initial.name)}
+              title="Remove this stock from the registry. Prints already developed keep its name."
+              className="px-6 py-4 bg-kodak-dark text-kodak-red font-display text-2xl uppercase border-2 border-kodak-red hover:bg-kodak-red hover:text-kodak-yellow transition-all"
+            >
+              Delete
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-6 py-2 text-xs font-black text-kodak-yellow/40 hover:text-kodak-yellow uppercase tracking-[0.2em] transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FilmStockEditor;
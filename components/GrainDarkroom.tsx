@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import { FilmStock, GrainPass, ISOValue } from '../types';
+
+interface GrainDarkroomProps {
+  filmStock: FilmStock;
+  iso: ISOValue;
+  busy: boolean;
+  onApply: (source: GrainPass['source'], iso: ISOValue) => void;
+}
+
+const ISO_OPTIONS: ISOValue[] = [200, 400, 800, 1600];
+
+const GrainDarkroom: React.FC<GrainDarkroomProps> = ({ filmStock, iso, busy, onApply }) => {
+  const [source, setSource] = useState<GrainPass['source']>('developed');
+  const [targetIso, setTargetIso] = useState<ISOValue>(iso);
+
+  useEffect(() => {
+    setTargetIso(iso);
+  }, [iso]);
+
+  return (
+    <div className="bg-[#2a2a2a] border-l-8 border-kodak-yellow p-6 shadow-2xl space-y-4 theme-transition">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-black text-kodak-yellow uppercase tracking-[0.2em] theme-transition">Grain Darkroom</label>
+        <span className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">Local // No Lab Fee</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div className="space-y-2">
+          <p className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest theme-transition">Grain Onto</p>
+          <div className="grid grid-cols-2 gap-2">
+            {(['developed', 'original'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setSource(option)}
+                title={option === 'developed' ? 'Render grain on top of the developed print' : 'Render grain directly onto the untouched original'}
+                className={`py-2 font-display text-lg transition-all border-2 theme-transition ${source === option ? 'bg-kodak-red border-kodak-yellow text-kodak-yellow' : 'bg-kodak-dark border-kodak-red/50 text-kodak-red/50 hover:border-kodak-red hover:text-kodak-red'}`}
+              >
+                {option === 'developed' ? 'Print' : 'Original'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest theme-transition">Speed (ISO)</p>
+          <div className="grid grid-cols-4 gap-1">
+            {ISO_OPTIONS.map(val => (
+              <button
+                key={val}
+                onClick={() => setTargetIso(val)}
+                title={`Re-grain as ${filmStock} at ISO ${val}`}
+                className={`py-2 font-display text-lg transition-all border-2 theme-transition ${targetIso === val ? 'bg-kodak-red border-kodak-yellow text-kodak-yellow' : 'bg-kodak-dark border-kodak-red/50 text-kodak-red/50 hover:border-kodak-red hover:text-kodak-red'}`}
+              >
+                {val}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={() => onApply(source, targetIso)}
+          disabled={busy}
+          title="Render deterministic film grain in the browser and file it as a new print"
+          className="py-3 bg-kodak-yellow disabled:bg-kodak-dark disabled:text-kodak-red/20 text-kodak-dark font-display text-2xl uppercase tracking-tighter hover:brightness-110 active:translate-y-1 transition-all theme-transition"
+        >
+          {busy ? 'Graining...' : 'Re-Grain'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GrainDarkroom;
@@ -0,0 +1,211 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PrintMask } from '../types';
+import { loadImage } from '../services/canvasUtils';
+import { DEFAULT_MASK_FEATHER, MASK_LONG_EDGE, isMaskEmpty } from '../services/maskCompositor';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  initial: PrintMask | null;
+  onSave: (mask: PrintMask | null) => void;
+  onClose: () => void;
+}
+
+type MaskTool = 'brush' | 'eraser';
+
+const MASK_COLOR = '#E12127';
+const labelClass = 'text-[10px] font-black text-kodak-yellow uppercase tracking-[0.2em] theme-transition';
+const toolClass = (active: boolean) =>
+  `py-2 font-display text-lg border-2 transition-all theme-transition ${active ? 'bg-kodak-red border-kodak-yellow text-kodak-yellow' : 'bg-kodak-dark border-kodak-red/50 text-kodak-yellow hover:border-kodak-red'}`;
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, initial, onSave, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(60);
+  const [feather, setFeather] = useState(initial?.feather ?? DEFAULT_MASK_FEATHER);
+  const [ready, setReady] = useState(false);
+
+  const getContext = () => canvasRef.current?.getContext('2d', { willReadFrequently: true }) ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+    const setup = async () => {
+      const img = await loadImage(imageUrl);
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      const scale = Math.min(1, MASK_LONG_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+      canvas.width = Math.round(img.naturalWidth * scale);
+      canvas.height = Math.round(img.naturalHeight * scale);
+      if (initial) {
+        const mask = await loadImage(initial.dataUrl);
+        getContext()?.drawImage(mask, 0, 0, canvas.width, canvas.height);
+      }
+      if (!cancelled) setReady(true);
+    };
+    setup().catch(err => console.error("Could not open the mask editor", err));
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height
+    };
+  };
+
+  const paintTo = (point: { x: number; y: number }) => {
+    const ctx = getContext();
+    if (!ctx) return;
+    const from = lastPointRef.current ?? point;
+    ctx.globalCompositeOperation = tool === 'brush' ? 'source-over' : 'destination-out';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.fillStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    if (from === point) {
+      ctx.arc(point.x, point.y, brushSize / 2, 0, Math.PI * 2);
+      ctx.fill();
+    } else {
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+    }
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    paintTo(toCanvasPoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    paintTo(toCanvasPoint(e));
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const fillAll = (clear: boolean) => {
+    const ctx = getContext();
+    const canvas = canvasRef.current;
+    if (!ctx || !canvas) return;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!clear) {
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+  };
+
+  const invert = () => {
+    const ctx = getContext();
+    const canvas = canvasRef.current;
+    if (!ctx || !canvas) return;
+    const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 0; i < frame.data.length; i += 4) {
+      frame.data[i] = 0xE1;
+      frame.data[i + 1] = 0x21;
+      frame.data[i + 2] = 0x27;
+      frame.data[i + 3] = 255 - frame.data[i + 3];
+    }
+    ctx.putImageData(frame, 0, 0);
+  };
+
+  const handleSave = () => {
+    const ctx = getContext();
+    const canvas = canvasRef.current;
+    if (!ctx || !canvas) return;
+    // An empty mask would keep nothing from the development, so treat it as no mask at all
+    const empty = isMaskEmpty(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    onSave(empty ? null : { dataUrl: canvas.toDataURL('image/png'), feather });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/90 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="w-full max-w-5xl max-h-[95vh] overflow-y-auto custom-scrollbar bg-[#2a2a2a] border-4 border-kodak-red p-6 shadow-[20px_20px_0px_#111] space-y-4 theme-transition">
+        <div className="flex items-center justify-between border-b-2 border-kodak-yellow pb-3">
+          <h2 className="font-display text-4xl text-kodak-yellow uppercase tracking-tighter">Development Mask</h2>
+          <p className="text-[10px] font-bold text-kodak-cream/60 uppercase tracking-widest max-w-xs text-right">Paint where developed pixels should land, typically skin. Everything else keeps the original.</p>
+        </div>
+
+        <div className="relative bg-black flex justify-center">
+          <div className="relative inline-block max-h-[60vh]">
+            <img src={imageUrl} alt="Mask source" className="block max-h-[60vh] w-auto select-none pointer-events-none" />
+            <canvas
+              ref={canvasRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className={`absolute inset-0 w-full h-full opacity-50 touch-none ${tool === 'brush' ? 'cursor-crosshair' : 'cursor-cell'} ${ready ? '' : 'invisible'}`}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <label className={labelClass}>Tool</label>
+            <div className="grid grid-cols-2 gap-2">
+              <button onClick={() => setTool('brush')} title="Paint regions that take the developed pixels" className={toolClass(tool === 'brush')}>Brush</button>
+              <button onClick={() => setTool('eraser')} title="Erase regions back to the original" className={toolClass(tool === 'eraser')}>Eraser</button>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <label className={labelClass}>Brush Size</label>
+              <span className="text-[10px] font-black text-kodak-red uppercase tracking-widest">{brushSize}px</span>
+            </div>
+            <input type="range" min={4} max={240} value={brushSize} onChange={(e) => setBrushSize(parseInt(e.target.value))} className="w-full h-2 bg-kodak-dark rounded-lg appearance-none cursor-pointer border-2 border-kodak-red accent-kodak-yellow" />
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <label className={labelClass}>Feather</label>
+              <span className="text-[10px] font-black text-kodak-red uppercase tracking-widest">{feather}px</span>
+            </div>
+            <input type="range" min={0} max={64} value={feather} onChange={(e) => setFeather(parseInt(e.target.value))} title="How softly the developed region blends into the original" className="w-full h-2 bg-kodak-dark rounded-lg appearance-none cursor-pointer border-2 border-kodak-red accent-kodak-yellow" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <button onClick={() => fillAll(false)} title="Mask the whole frame" className={toolClass(false)}>Fill</button>
+          <button onClick={invert} title="Swap masked and unmasked regions" className={toolClass(false)}>Invert</button>
+          <button onClick={() => fillAll(true)} title="Erase the whole mask" className={toolClass(false)}>Clear</button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <button
+            onClick={handleSave}
+            disabled={!ready}
+            className="flex-1 py-4 bg-kodak-red text-kodak-yellow font-display text-2xl uppercase border-b-4 border-black/20 hover:brightness-110 disabled:opacity-30 active:translate-y-1 active:border-b-0 transition-all"
+          >
+            Use Mask
+          </button>
+          {initial && (
+            <button
+              onClick={() => onSave(null)}
+              title="Develop the full frame again"
+              className="px-6 py-4 bg-kodak-dark text-kodak-red font-display text-2xl uppercase border-2 border-kodak-red hover:bg-kodak-red hover:text-kodak-yellow transition-all"
+            >
+              Remove Mask
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-6 py-2 text-xs font-black text-kodak-yellow/40 hover:text-kodak-yellow uppercase tracking-[0.2em] transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
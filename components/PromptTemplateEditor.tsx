@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { PromptTemplate } from '../types';
+import { DEFAULT_PROMPT_TEMPLATE, PROMPT_VARIABLES, PromptVariables, renderPrompt, skinBandFor, unknownVariables } from '../services/promptTemplates';
+
+interface PromptTemplateEditorProps {
+  templates: PromptTemplate[];
+  active: PromptTemplate;
+  variables: PromptVariables;
+  onSave: (draft: Pick<PromptTemplate, 'body' | 'skinBands'>, name: string) => void;
+  onActivate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+type Draft = Pick<PromptTemplate, 'body' | 'skinBands'>;
+
+const BANDS: { key: keyof PromptTemplate['skinBands']; label: string }[] = [
+  { key: 'low', label: 'Skin Detail < 30' },
+  { key: 'medium', label: 'Skin Detail 30-70' },
+  { key: 'high', label: 'Skin Detail > 70' }
+];
+
+const labelClass = 'text-[10px] font-black text-kodak-yellow uppercase tracking-[0.2em] theme-transition';
+const textareaClass = 'w-full bg-kodak-dark border border-kodak-red/30 p-2 text-kodak-yellow/80 text-xs font-mono outline-none focus:border-kodak-red resize-y theme-transition';
+
+const toDraft = (template: PromptTemplate): Draft => ({ body: template.body, skinBands: { ...template.skinBands } });
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ templates, active, variables, onSave, onActivate, onDelete }) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(active));
+  const [name, setName] = useState(active.id === DEFAULT_PROMPT_TEMPLATE.id ? '' : active.name);
+
+  useEffect(() => {
+    setDraft(toDraft(active));
+    setName(active.id === DEFAULT_PROMPT_TEMPLATE.id ? '' : active.name);
+  }, [active.id]);
+
+  const dirty = draft.body !== active.body || BANDS.some(({ key }) => draft.skinBands[key] !== active.skinBands[key]);
+  const unknown = unknownVariables(draft);
+  const currentBand = skinBandFor(variables.skinDetail);
+  const canSave = dirty && name.trim().length > 0;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave(draft, name.trim());
+  };
+
+  return (
+    <section className="bg-[#2a2a2a] border-l-8 border-kodak-red p-6 shadow-2xl space-y-4 theme-transition">
+      <div className="flex items-center justify-between">
+        <label className={labelClass}>Prompt Template</label>
+        <button
+          onClick={() => setOpen(prev => !prev)}
+          title="Edit the prompt sent to the Emulsion Engine"
+          className="text-[10px] font-black text-kodak-red hover:text-kodak-yellow uppercase tracking-widest transition-colors theme-transition"
+        >
+          {open ? 'Hide' : `${active.name} v${active.version}`}
+        </button>
+      </div>
+
+      {open && (
+        <>
+          <div className="flex gap-2">
+            <select
+              value={active.id}
+              onChange={(e) => onActivate(e.target.value)}
+              title="Template version used for the next development"
+              className="flex-1 min-w-0 bg-kodak-dark border border-kodak-red/30 p-2 text-kodak-yellow/80 font-display text-lg outline-none theme-transition"
+            >
+              {[DEFAULT_PROMPT_TEMPLATE, ...templates].map(template => (
+                <option key={template.id} value={template.id}>{template.name} v{template.version}</option>
+              ))}
+            </select>
+            {active.id !== DEFAULT_PROMPT_TEMPLATE.id && (
+              <button
+                onClick={() => onDelete(active.id)}
+                title="Delete this template version. Prints developed with it keep their record."
+                className="px-3 bg-kodak-dark text-kodak-red border-2 border-kodak-red/50 hover:border-kodak-red font-display text-lg transition-all theme-transition"
+              >
+                ×
+              </button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            {PROMPT_VARIABLES.map(variable => (
+              <span key={variable.name} title={variable.description} className="px-2 py-1 bg-kodak-dark border border-kodak-red/30 text-[9px] font-mono text-kodak-yellow/70 theme-transition">
+                {`{${variable.name}}`}
+              </span>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">Prompt</p>
+            <textarea
+              value={draft.body}
+              onChange={(e) => setDraft(prev => ({ ...prev, body: e.target.value }))}
+              rows={5}
+              className={textareaClass}
+            />
+          </div>
+
+          {BANDS.map(({ key, label }) => (
+            <div key={key} className="space-y-2">
+              <p className={`text-[10px] font-black uppercase tracking-widest theme-transition ${key === currentBand ? 'text-kodak-yellow' : 'text-kodak-red'}`}>
+                {label}{key === currentBand && ' // In Use'}
+              </p>
+              <textarea
+                value={draft.skinBands[key]}
+                onChange={(e) => setDraft(prev => ({ ...prev, skinBands: { ...prev.skinBands, [key]: e.target.value } }))}
+                rows={3}
+                className={textareaClass}
+              />
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <p className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">Preview // {variables.stock} @ ISO {variables.iso}</p>
+            <p className="p-3 bg-black/40 border border-kodak-yellow/20 text-xs text-kodak-cream/80 leading-relaxed theme-transition">{renderPrompt(draft, variables)}</p>
+            {unknown.length > 0 && (
+              <p className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">Unknown variables: {unknown.map(v => `{${v}}`).join(', ')}</p>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              maxLength={60}
+              placeholder="Template name"
+              className="flex-1 min-w-0 bg-kodak-dark border border-kodak-red/30 p-2 text-kodak-yellow/80 text-sm outline-none theme-transition"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              title="Save the edits as a new version and develop with it. Same name continues its version count."
+              className="px-4 bg-kodak-red text-kodak-yellow font-display text-lg border-b-4 border-black/20 disabled:opacity-30 active:translate-y-1 active:border-b-0 transition-all theme-transition"
+            >
+              Save Version
+            </button>
+            {dirty && (
+              <button
+                onClick={() => setDraft(toDraft(active))}
+                title="Discard edits"
+                className="px-3 text-[10px] font-black text-kodak-yellow/40 hover:text-kodak-yellow uppercase tracking-[0.2em] transition-colors"
+              >
+                Revert
+              </button>
+            )}
+          </div>
+          {dirty && (
+            <p className="text-[10px] font-black text-kodak-yellow/60 uppercase tracking-widest theme-transition">Unsaved edits. Developments use the saved version until these are saved.</p>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import { SavedRecipe } from '../types';
+
+interface RecipeShelfProps {
+  recipes: SavedRecipe[];
+  activeId?: string;
+  error?: string | null;
+  onSave: (name: string) => void;
+  onLoad: (recipe: SavedRecipe) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const RecipeShelf: React.FC<RecipeShelfProps> = ({
+  recipes,
+  activeId,
+  error,
+  onSave,
+  onLoad,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const [name, setName] = useState('');
+  const jsonInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName('');
+  };
+
+  const handleJsonSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <section className="bg-[#2a2a2a] border-l-8 border-kodak-yellow p-6 shadow-2xl space-y-4 theme-transition">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-black text-kodak-yellow uppercase tracking-[0.2em] theme-transition">Lab Recipes</label>
+        <span className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">{recipes.length} Saved</span>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          maxLength={60}
+          placeholder="Name this recipe"
+          className="flex-1 min-w-0 bg-kodak-dark border border-kodak-red/30 p-2 text-kodak-yellow/80 text-sm outline-none theme-transition"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          title="Save the current stock, ISO, skin detail, resolution and grade as a named recipe"
+          className="px-4 bg-kodak-red text-kodak-yellow font-display text-lg border-b-4 border-black/20 disabled:opacity-30 active:translate-y-1 active:border-b-0 transition-all theme-transition"
+        >
+          Save
+        </button>
+      </div>
+
+      {recipes.length > 0 && (
+        <ul className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar pr-1">
+          {recipes.map(saved => (
+            <li key={saved.id} className="flex items-center gap-2">
+              <button
+                onClick={() => onLoad(saved)}
+                title={`${saved.recipe.filmStock} // ISO ${saved.recipe.iso} // ${saved.recipe.skinDetail}% detail // ${saved.recipe.imageSize}${saved.recipe.lutStrength ? ` // LUT ${saved.recipe.lutStrength}%` : ''}`}
+                className={`flex-1 min-w-0 text-left px-3 py-2 border-2 transition-all theme-transition ${saved.id === activeId ? 'bg-kodak-red border-kodak-yellow text-kodak-yellow' : 'bg-kodak-dark border-kodak-red/30 text-kodak-yellow/70 hover:border-kodak-red'}`}
+              >
+                <span className="block font-display text-lg leading-tight truncate">{saved.name}</span>
+                <span className="block text-[9px] font-bold uppercase tracking-widest opacity-60 truncate">{saved.recipe.filmStock} // {saved.recipe.iso}</span>
+              </button>
+              <button
+                onClick={() => onDelete(saved.id)}
+                title="Delete this recipe. Prints developed with it keep its name."
+                className="w-8 h-8 shrink-0 bg-kodak-dark text-kodak-red border border-kodak-red/30 hover:bg-kodak-red hover:text-kodak-yellow transition-all theme-transition"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <input type="file" ref={jsonInputRef} onChange={handleJsonSelected} className="hidden" accept=".json,application/json" />
+        <button
+          onClick={() => jsonInputRef.current?.click()}
+          title="Add recipes from a JSON file shared by another lab"
+          className="py-2 bg-kodak-dark text-kodak-yellow font-display text-lg border-2 border-kodak-red/50 hover:border-kodak-red transition-all theme-transition"
+        >
+          Import
+        </button>
+        <button
+          onClick={onExport}
+          disabled={recipes.length === 0}
+          title="Download every saved recipe as a JSON file"
+          className="py-2 bg-kodak-dark text-kodak-yellow font-display text-lg border-2 border-kodak-red/50 hover:border-kodak-red disabled:opacity-30 transition-all theme-transition"
+        >
+          Export
+        </button>
+      </div>
+      {error && (
+        <p className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">{error}</p>
+      )}
+    </section>
+  );
+};
+
+export default RecipeShelf;
@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { computeScopes, PARADE_COLUMNS, ScopeData, SPECTRUM_BINS } from '../services/scopes';
+
+interface ScopesPanelProps {
+  original: string;
+  processed: string;
+}
+
+const HISTOGRAM_HEIGHT = 96;
+const PARADE_HEIGHT = 128;
+const SPECTRUM_HEIGHT = 120;
+// Below this mean channel spread a frame reads as monochrome; JPEG chroma noise alone is about 1-2 levels
+const MONOCHROME_CHROMA = 3;
+const CHANNEL_COLORS = { r: '#ff3b3b', g: '#3bff6a', b: '#3b8bff' };
+const SERIES = [
+  { key: 'original' as const, label: 'Synthetic', color: '#f5f0e1' },
+  { key: 'processed' as const, label: 'Developed', color: '#E12127' }
+];
+
+const labelClass = 'text-[10px] font-black text-kodak-yellow uppercase tracking-[0.2em] theme-transition';
+
+const drawHistogram = (canvas: HTMLCanvasElement, { histogram }: ScopeData) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  canvas.width = 256;
+  canvas.height = HISTOGRAM_HEIGHT;
+  ctx.fillStyle = '#111';
+  ctx.fillRect(0, 0, 256, HISTOGRAM_HEIGHT);
+  // Scale to the tallest interior bin, so clipped blacks and whites do not flatten everything else
+  const peak = Math.max(1, ...(['r', 'g', 'b', 'luma'] as const).flatMap(key => Array.from(histogram[key].subarray(1, 255))));
+  const y = (count: number) => HISTOGRAM_HEIGHT - Math.min(1, count / peak) * HISTOGRAM_HEIGHT;
+
+  ctx.globalCompositeOperation = 'lighter';
+  (['r', 'g', 'b'] as const).forEach(key => {
+    ctx.fillStyle = CHANNEL_COLORS[key];
+    ctx.globalAlpha = 0.6;
+    ctx.beginPath();
+    ctx.moveTo(0, HISTOGRAM_HEIGHT);
+    histogram[key].forEach((count, level) => ctx.lineTo(level, y(count)));
+    ctx.lineTo(255, HISTOGRAM_HEIGHT);
+    ctx.fill();
+  });
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = 1;
+  ctx.strokeStyle = '#fff';
+  ctx.beginPath();
+  histogram.luma.forEach((count, level) => level === 0 ? ctx.moveTo(level, y(count)) : ctx.lineTo(level, y(count)));
+  ctx.stroke();
+};
+
+const drawParade = (canvas: HTMLCanvasElement, { parade }: ScopeData) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const width = PARADE_COLUMNS * 3;
+  canvas.width = width;
+  canvas.height = PARADE_HEIGHT;
+  const frame = ctx.createImageData(width, PARADE_HEIGHT);
+  (['r', 'g', 'b'] as const).forEach((key, channel) => {
+    const counts = parade[key];
+    const peak = Math.log1p(Math.max(1, ...counts));
+    for (let column = 0; column < PARADE_COLUMNS; column++) {
+      for (let row = 0; row < PARADE_HEIGHT; row++) {
+        // Two levels per row, brightest at the top like a broadcast waveform
+        const level = 255 - row * (256 / PARADE_HEIGHT);
+        const count = counts[column * 256 + level] + counts[column * 256 + level - 1];
+        const i = (row * width + channel * PARADE_COLUMNS + column) * 4;
+        frame.data[i + channel] = Math.round((Math.log1p(count) / peak) * 255);
+        frame.data[i + 3] = 255;
+      }
+    }
+  });
+  ctx.putImageData(frame, 0, 0);
+};
+
+const drawSpectrum = (canvas: HTMLCanvasElement, scopes: Record<'original' | 'processed', ScopeData>) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const width = SPECTRUM_BINS * 4;
+  canvas.width = width;
+  canvas.height = SPECTRUM_HEIGHT;
+  ctx.fillStyle = '#111';
+  ctx.fillRect(0, 0, width, SPECTRUM_HEIGHT);
+  ctx.strokeStyle = '#333';
+  for (let i = 1; i < 4; i++) {
+    ctx.beginPath();
+    ctx.moveTo((width * i) / 4, 0);
+    ctx.lineTo((width * i) / 4, SPECTRUM_HEIGHT);
+    ctx.stroke();
+  }
+
+  // Log power on a shared scale; DC is skipped since the high-pass removed it
+  const logs = SERIES.map(({ key }) => Array.from(scopes[key].spectrum.subarray(1), v => Math.log10(v + 1e-6)));
+  const max = Math.max(...logs.flat());
+  const min = Math.min(...logs.flat());
+  const range = Math.max(1e-6, max - min);
+  SERIES.forEach(({ color }, s) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    logs[s].forEach((value, i) => {
+      const x = ((i + 1) / SPECTRUM_BINS) * width;
+      const y = SPECTRUM_HEIGHT - ((value - min) / range) * (SPECTRUM_HEIGHT - 8) - 4;
+      if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+    });
+    ctx.stroke();
+  });
+};
+
+const ScopeCanvas: React.FC<{ scopes: ScopeData; draw: (canvas: HTMLCanvasElement, scopes: ScopeData) => void; title: string }> = ({ scopes, draw, title }) => {
+  const ref = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    if (ref.current) draw(ref.current, scopes);
+  }, [scopes, draw]);
+  return <canvas ref={ref} title={title} className="w-full h-auto bg-black border border-kodak-red/30 [image-rendering:pixelated]" />;
+};
+
+const ScopesPanel: React.FC<ScopesPanelProps> = ({ original, processed }) => {
+  const [open, setOpen] = useState(false);
+  const [scopes, setScopes] = useState<Record<'original' | 'processed', ScopeData> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const spectrumRef = useRef<HTMLCanvasElement>(null);
+
+  // Only measured while the panel is open; both frames are recomputed when either one changes
+  useEffect(() => {
+    setScopes(null);
+    setError(null);
+    if (!open) return;
+    let cancelled = false;
+    Promise.all([computeScopes(original), computeScopes(processed)])
+      .then(([originalScopes, processedScopes]) => {
+        if (!cancelled) setScopes({ original: originalScopes, processed: processedScopes });
+      })
+      .catch(err => {
+        console.error("Could not compute scopes", err);
+        if (!cancelled) setError("The scopes could not read one of the frames.");
+      });
+    return () => { cancelled = true; };
+  }, [open, original, processed]);
+
+  useEffect(() => {
+    if (spectrumRef.current && scopes) drawSpectrum(spectrumRef.current, scopes);
+  }, [scopes]);
+
+  return (
+    <div className="bg-[#2a2a2a] border-l-8 border-kodak-yellow p-6 shadow-2xl space-y-4 theme-transition">
+      <div className="flex items-center justify-between">
+        <label className={labelClass}>Scopes</label>
+        <button
+          onClick={() => setOpen(prev => !prev)}
+          title="Histogram, RGB parade and grain spectrum for the synthetic frame and the developed print, measured locally"
+          className="text-[10px] font-black text-kodak-red hover:text-kodak-yellow uppercase tracking-widest transition-colors theme-transition"
+        >
+          {open ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {open && !scopes && (
+        <p className="text-[10px] font-black uppercase tracking-widest text-kodak-cream/60 theme-transition">{error ?? 'Measuring...'}</p>
+      )}
+
+      {scopes && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {SERIES.map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <p className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">{label}</p>
+                <ScopeCanvas scopes={scopes[key]} draw={drawHistogram} title={`${label}: RGB histogram with luminance outline`} />
+                <ScopeCanvas scopes={scopes[key]} draw={drawParade} title={`${label}: RGB parade, frame left to right within each channel`} />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">Grain Noise Power Spectrum</p>
+              <div className="flex gap-3">
+                {SERIES.map(({ key, label, color }) => (
+                  <span key={key} className="text-[9px] font-black uppercase tracking-widest" style={{ color }}>{label}</span>
+                ))}
+              </div>
+            </div>
+            <canvas ref={spectrumRef} title="Grain power from coarse (left) to fine (right, Nyquist). Coarser grain lifts the left of the curve." className="w-full h-auto border border-kodak-red/30" />
+          </div>
+
+          <table className="w-full text-[10px] font-black uppercase tracking-widest text-kodak-cream/80 theme-transition">
+            <thead>
+              <tr className="text-kodak-yellow">
+                <th className="text-left py-1">Measure</th>
+                {SERIES.map(({ key, label }) => <th key={key} className="text-right py-1">{label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              <tr title="Mean spread between the strongest and weakest channel. Near zero means monochrome.">
+                <td className="py-1">Chroma</td>
+                {SERIES.map(({ key }) => (
+                  <td key={key} className="text-right py-1">
+                    {scopes[key].chroma.toFixed(1)}{scopes[key].chroma < MONOCHROME_CHROMA && <span className="ml-2 text-kodak-yellow">Mono</span>}
+                  </td>
+                ))}
+              </tr>
+              <tr title="Standard deviation of fine luminance detail, in 8-bit levels">
+                <td className="py-1">Grain RMS</td>
+                {SERIES.map(({ key }) => <td key={key} className="text-right py-1">{scopes[key].grainRms.toFixed(2)}</td>)}
+              </tr>
+              <tr title="Power-weighted mean grain frequency in cycles per pixel. Lower means coarser grain.">
+                <td className="py-1">Grain Frequency</td>
+                {SERIES.map(({ key }) => <td key={key} className="text-right py-1">{scopes[key].grainCentroid.toFixed(3)}</td>)}
+              </tr>
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScopesPanel;
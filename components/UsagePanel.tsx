@@ -0,0 +1,119 @@
+import React from 'react';
+import { ImageSize, UsageEntry, UsageSettings } from '../types';
+import { exceededBudget, summarizeUsage, UsageSpend, UsageTotals } from '../services/usageLedger';
+
+interface UsagePanelProps {
+  ledger: UsageEntry[];
+  spend: UsageSpend;
+  settings: UsageSettings;
+  onSettingsChange: (settings: UsageSettings) => void;
+  onClear: () => void;
+}
+
+const SIZES: ImageSize[] = ['1K', '2K', '4K'];
+const inputClass = 'w-full bg-kodak-dark border border-kodak-red/30 p-2 text-kodak-yellow/80 font-display text-lg outline-none theme-transition';
+
+const formatCost = (value: number) => `$${value.toFixed(2)}`;
+
+const parseAmount = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+// Spend comes from the cap record, so it survives a cleared ledger; the call counts come from the ledger
+const TotalsColumn: React.FC<{ label: string; totals: UsageTotals; spent: number; cap: number }> = ({ label, totals, spent, cap }) => (
+  <div className="space-y-2">
+    <p className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">{label}</p>
+    <p className="font-display text-3xl text-kodak-yellow leading-none theme-transition">{formatCost(spent)}</p>
+    {cap > 0 && (
+      <div className="h-2 bg-kodak-dark border border-kodak-red/30 theme-transition" title={`${formatCost(spent)} of ${formatCost(cap)}`}>
+        <div className={`h-full ${spent >= cap ? 'bg-kodak-red' : 'bg-kodak-yellow'} theme-transition`} style={{ width: `${Math.min(100, (spent / cap) * 100)}%` }} />
+      </div>
+    )}
+    <p className="text-[9px] font-bold uppercase tracking-widest text-kodak-cream/60 leading-relaxed theme-transition">
+      {totals.calls} Calls // {totals.successes} OK // {totals.rejections} Rejected{totals.failures > 0 && ` // ${totals.failures} Failed`}
+      <br />
+      Avg {(totals.averageLatencyMs / 1000).toFixed(1)}s
+    </p>
+  </div>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ ledger, spend, settings, onSettingsChange, onClear }) => {
+  const { today, month } = summarizeUsage(ledger);
+  const exceeded = exceededBudget(settings, spend);
+
+  return (
+    <section className="bg-[#2a2a2a] border-l-8 border-kodak-yellow p-6 shadow-2xl space-y-4 theme-transition">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-black text-kodak-yellow uppercase tracking-[0.2em] theme-transition">Lab Fees</label>
+        <span className="text-[10px] font-black text-kodak-red uppercase tracking-widest theme-transition">Estimated</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <TotalsColumn label="Today" totals={today} spent={spend.today} cap={settings.dailyCap} />
+        <TotalsColumn label="This Month" totals={month} spent={spend.month} cap={settings.monthlyCap} />
+      </div>
+
+      {exceeded && (
+        <p className="p-2 bg-kodak-red text-kodak-yellow text-[10px] font-black uppercase tracking-widest theme-transition">
+          {exceeded.period === 'daily' ? 'Daily' : 'Monthly'} cap reached. Paid developments are blocked.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-[10px] font-black text-kodak-yellow uppercase tracking-widest theme-transition">Price Per Print</p>
+        <div className="grid grid-cols-3 gap-2">
+          {SIZES.map(size => (
+            <label key={size} className="space-y-1">
+              <span className="block text-[9px] font-black text-kodak-red uppercase tracking-widest theme-transition">{size}</span>
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={settings.prices[size]}
+                onChange={(e) => onSettingsChange({ ...settings, prices: { ...settings.prices, [size]: parseAmount(e.target.value) } })}
+                title={`Estimated cost of one ${size} print from a paid engine`}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span className="block text-[9px] font-black text-kodak-red uppercase tracking-widest theme-transition">Daily Cap ($)</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={settings.dailyCap}
+            onChange={(e) => onSettingsChange({ ...settings, dailyCap: parseAmount(e.target.value) })}
+            title="Block paid developments once today's estimate reaches this. 0 for no cap."
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="block text-[9px] font-black text-kodak-red uppercase tracking-widest theme-transition">Monthly Cap ($)</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={settings.monthlyCap}
+            onChange={(e) => onSettingsChange({ ...settings, monthlyCap: parseAmount(e.target.value) })}
+            title="Block paid developments once this month's estimate reaches this. 0 for no cap."
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <button
+        onClick={onClear}
+        disabled={ledger.length === 0}
+        title="Erase the local record of engine calls. Spending toward the caps is kept."
+        className="w-full py-2 text-[10px] font-black text-kodak-yellow/40 hover:text-kodak-yellow uppercase tracking-[0.2em] disabled:opacity-30 transition-colors"
+      >
+        Clear Ledger ({ledger.length} Calls)
+      </button>
+    </section>
+  );
+};
+
+export default UsagePanel;
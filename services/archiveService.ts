@@ -0,0 +1,222 @@
+import { ProcessedImage } from "../types";
+import { getHistoryMetadata, HistoryMetadata, saveHistoryItem } from "./dbService";
+import { urlToBlob } from "./canvasUtils";
+import { createZip, readZip, ZipEntry } from "./zipArchive";
+import { validateRecipe } from "./recipeService";
+import { isAspectRatio, isFiniteNumber, isImageDataUrl, isIsoValue, isNonEmptyString, isProcessorId, isRecord, isString } from "./typeGuards";
+
+const ARCHIVE_FORMAT = 'de-synthesize-lab-archive';
+const ARCHIVE_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+interface ArchivedPrint extends HistoryMetadata {
+  files: { original: string; processed: string };
+}
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  prints: ArchivedPrint[];
+}
+
+// Optional fields are either absent or well formed; a present field of the wrong shape fails the print
+const optional = <T>(value: unknown, parse: (value: unknown) => T | null, field: string): T | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const parsed = parse(value);
+  if (parsed === null) throw new Error(`its ${field} is malformed`);
+  return parsed;
+};
+
+const parseGrainPass = (value: unknown): ArchivedPrint['grainPass'] | null =>
+  isRecord(value) && (value.source === 'developed' || value.source === 'original') && isNonEmptyString(value.filmStock) && isIsoValue(value.iso) && isFiniteNumber(value.seed)
+    ? { source: value.source, filmStock: value.filmStock, iso: value.iso, seed: value.seed }
+    : null;
+
+const parseGrade = (value: unknown): ArchivedPrint['grade'] | null =>
+  isRecord(value) && isString(value.lut) && isFiniteNumber(value.strength) ? { lut: value.lut, strength: value.strength } : null;
+
+const parseRecipeRef = (value: unknown): ArchivedPrint['recipe'] | null =>
+  isRecord(value) && isNonEmptyString(value.id) && isString(value.name) ? { id: value.id, name: value.name } : null;
+
+const parseMask = (value: unknown): ArchivedPrint['mask'] | null =>
+  isRecord(value) && isImageDataUrl(value.dataUrl) && isFiniteNumber(value.feather) && value.feather >= 0 ? { dataUrl: value.dataUrl, feather: value.feather } : null;
+
+const parseTiles = (value: unknown): number | null =>
+  Number.isInteger(value) && (value as number) >= 1 ? value as number : null;
+
+const parseDrift = (value: unknown): ArchivedPrint['drift'] | null => {
+  if (!isRecord(value) || !isFiniteNumber(value.ssim) || !isFiniteNumber(value.edgeDifference)) return null;
+  const shift = value.colorShift;
+  if (!isRecord(shift) || ![shift.deltaE, shift.r, shift.g, shift.b].every(isFiniteNumber)) return null;
+  return { ssim: value.ssim, edgeDifference: value.edgeDifference, colorShift: { deltaE: shift.deltaE as number, r: shift.r as number, g: shift.g as number, b: shift.b as number } };
+};
+
+const parseTemplateRef = (value: unknown): ArchivedPrint['promptTemplate'] | null =>
+  isRecord(value) && isNonEmptyString(value.id) && isString(value.name) && isFiniteNumber(value.version) ? { id: value.id, name: value.name, version: value.version } : null;
+
+const parseText = (value: unknown): string | null => isNonEmptyString(value) ? value : null;
+
+/**
+ * Checks one manifest entry and keeps only the fields the lab knows, so nothing
+ * malformed or unexpected is written to the store. Throws with the reason otherwise.
+ */
+const parseArchivedPrint = (raw: unknown, index: number): ArchivedPrint => {
+  try {
+    if (!isRecord(raw)) throw new Error("it is not an object");
+    if (!isNonEmptyString(raw.id)) throw new Error("it has no id");
+    if (!isFiniteNumber(raw.timestamp)) throw new Error("it has no timestamp");
+    if (!isString(raw.prompt)) throw new Error("it has no prompt");
+    if (!isAspectRatio(raw.aspectRatio)) throw new Error(`its aspect ratio ${raw.aspectRatio} is not supported`);
+    const files = raw.files;
+    if (!isRecord(files) || !isNonEmptyString(files.original) || !isNonEmptyString(files.processed)) throw new Error("it does not name its image files");
+    const { filmStock, iso, skinDetail, imageSize } = validateRecipe({
+      filmStock: raw.filmStock,
+      iso: raw.iso,
+      skinDetail: raw.skinDetail,
+      imageSize: raw.size
+    });
+
+    return {
+      id: raw.id,
+      timestamp: raw.timestamp,
+      prompt: raw.prompt,
+      size: imageSize,
+      aspectRatio: raw.aspectRatio,
+      filmStock,
+      iso,
+      skinDetail,
+      processor: optional(raw.processor, value => isProcessorId(value) ? value : null, 'engine'),
+      grainPass: optional(raw.grainPass, parseGrainPass, 'grain pass'),
+      grade: optional(raw.grade, parseGrade, 'color grade'),
+      recipe: optional(raw.recipe, parseRecipeRef, 'recipe'),
+      mask: optional(raw.mask, parseMask, 'mask'),
+      tiles: optional(raw.tiles, parseTiles, 'tile grid'),
+      drift: optional(raw.drift, parseDrift, 'drift score'),
+      promptTemplate: optional(raw.promptTemplate, parseTemplateRef, 'prompt template'),
+      cacheKey: optional(raw.cacheKey, value => isString(value) && /^[0-9a-f]{64}$/.test(value) ? value : null, 'cache key'),
+      parentId: optional(raw.parentId, parseText, 'parent id'),
+      stackId: optional(raw.stackId, parseText, 'stack id'),
+      files: { original: files.original, processed: files.processed }
+    };
+  } catch (err) {
+    const id = isRecord(raw) && isNonEmptyString(raw.id) ? ` (${raw.id})` : '';
+    throw new Error(`Print ${index + 1}${id} in the archive is damaged: ${err instanceof Error ? err.message : String(err)}.`);
+  }
+};
+
+export interface ArchiveImportResult {
+  imported: number;
+  renamed: number;    // Prints whose id was already taken by a different print
+  duplicates: number; // Prints that were already in this lab
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+const fileNameFor = (id: string, role: 'original' | 'processed', blob: Blob) =>
+  `prints/${id.replace(/[^\w.-]/g, '_')}-${role}.${EXTENSIONS[blob.type] ?? 'bin'}`;
+
+const mimeTypeFor = (name: string) =>
+  Object.keys(EXTENSIONS).find(type => name.endsWith(`.${EXTENSIONS[type]}`)) ?? 'application/octet-stream';
+
+export const exportLabArchive = async (items: ProcessedImage[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const prints: ArchivedPrint[] = [];
+
+  // Prints are gathered as Blobs; createZip checksums them one entry at a time, so only a single image is read into a buffer at once
+  for (const item of items) {
+    const { originalUrl, processedUrl, selected, ...metadata } = item;
+    const original = await urlToBlob(originalUrl);
+    const processed = await urlToBlob(processedUrl);
+    const files = { original: fileNameFor(item.id, 'original', original), processed: fileNameFor(item.id, 'processed', processed) };
+    entries.push({ name: files.original, data: original }, { name: files.processed, data: processed });
+    prints.push({ ...metadata, files });
+  }
+
+  const manifest: ArchiveManifest = { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: Date.now(), prints };
+  entries.unshift({ name: MANIFEST_NAME, data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) });
+  return createZip(entries);
+};
+
+const isSamePrint = (a: HistoryMetadata, b: HistoryMetadata) =>
+  a.timestamp === b.timestamp && a.filmStock === b.filmStock && a.iso === b.iso && a.prompt === b.prompt;
+
+/**
+ * Merges an exported archive into the local history. A print whose id is already
+ * taken is skipped when it is the same print (re-importing an archive is a no-op),
+ * and filed under a fresh id otherwise.
+ */
+export const importLabArchive = async (archive: Blob, createId: () => string): Promise<ArchiveImportResult> => {
+  const entries = await readZip(archive);
+  const files = new Map(entries.map(entry => [entry.name, entry.data]));
+  const manifestBlob = files.get(MANIFEST_NAME);
+  if (!manifestBlob) {
+    throw new Error("This archive has no lab manifest. Only archives exported from the lab can be imported.");
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await manifestBlob.text());
+  } catch {
+    throw new Error("The archive manifest is not valid JSON.");
+  }
+  if (!isRecord(manifest) || manifest.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.prints)) {
+    throw new Error("The archive manifest is not a lab history export.");
+  }
+  if (!isFiniteNumber(manifest.version) || manifest.version > ARCHIVE_VERSION) {
+    throw new Error("This archive was written by a newer version of the lab.");
+  }
+
+  // Check every print before writing any, so a damaged archive does not leave a half import
+  const prints = manifest.prints.map(parseArchivedPrint);
+  const incomplete = prints.find(print => !files.has(print.files.original) || !files.has(print.files.processed));
+  if (incomplete) {
+    throw new Error(`The archive is missing the images for print ${incomplete.id}.`);
+  }
+
+  const result: ArchiveImportResult = { imported: 0, renamed: 0, duplicates: 0 };
+  // Renamed ids, so variants in the same archive keep pointing at their parent and stack
+  const renames = new Map<string, string>();
+  const remap = (id?: string) => (id && renames.get(id)) || id;
+
+  // Oldest first, so a parent is always filed (and possibly renamed) before its variants
+  const ordered = [...prints].sort((a, b) => a.timestamp - b.timestamp);
+  for (const { files: paths, ...metadata } of ordered) {
+    const original = files.get(paths.original)!;
+    const processed = files.get(paths.processed)!;
+
+    let id = metadata.id;
+    const existing = await getHistoryMetadata(id);
+    if (existing) {
+      if (isSamePrint(existing, metadata)) {
+        result.duplicates++;
+        continue;
+      }
+      id = createId();
+      renames.set(metadata.id, id);
+      result.renamed++;
+    }
+
+    const images = {
+      original: new Blob([original], { type: mimeTypeFor(paths.original) }),
+      processed: new Blob([processed], { type: mimeTypeFor(paths.processed) })
+    };
+    // The URLs are not read when the Blobs are passed in; the contact sheet reloads them from the store.
+    await saveHistoryItem({
+      ...metadata,
+      id,
+      parentId: remap(metadata.parentId),
+      stackId: remap(metadata.stackId),
+      originalUrl: '',
+      processedUrl: '',
+      selected: false
+    }, images);
+    result.imported++;
+  }
+  return result;
+};
@@ -0,0 +1,95 @@
+import { ImageSize } from "../types";
+
+export const OUTPUT_LONG_EDGE: Record<ImageSize, number> = {
+  '1K': 1024,
+  '2K': 2048,
+  '4K': 4096
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("The negative could not be decoded as an image."));
+    img.src = src;
+  });
+};
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("The darkroom canvas is unavailable in this browser.");
+  }
+  return { canvas, ctx };
+};
+
+// Draws an image scaled so its long edge matches the requested size.
+export const drawScaled = (img: HTMLImageElement, longEdge: number) => {
+  const scale = longEdge / Math.max(img.naturalWidth, img.naturalHeight);
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  return { canvas, ctx };
+};
+
+// Small seeded PRNG (mulberry32) so local renders are repeatable.
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+export const clamp255 = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value);
+
+// Decodes a data URL synchronously, so it can run inside an IndexedDB transaction without letting it commit.
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const comma = dataUrl.indexOf(',');
+  const header = dataUrl.slice(5, comma);
+  const mimeType = header.split(';')[0] || 'application/octet-stream';
+  const payload = dataUrl.slice(comma + 1);
+  if (!header.endsWith(';base64')) {
+    return new Blob([decodeURIComponent(payload)], { type: mimeType });
+  }
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const urlToBlob = async (url: string): Promise<Blob> => {
+  if (url.startsWith('data:')) return dataUrlToBlob(url);
+  const response = await fetch(url);
+  return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// History prints are served as blob: URLs; the Emulsion Engine and the grain seed need the inline bytes.
+export const toDataUrl = async (url: string): Promise<string> =>
+  url.startsWith('data:') ? url : blobToDataUrl(await urlToBlob(url));
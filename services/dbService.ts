@@ -1,9 +1,116 @@
-
-import { ProcessedImage } from "../types";
+import { ProcessedImage, StoredLut, FilmStock, FilmStockProfile, ISOValue, HistorySort } from "../types";
+import { dataUrlToBlob, urlToBlob } from "./canvasUtils";
 
 const DB_NAME = 'DeSynthesizeDB';
 const STORE_NAME = 'history';
-const DB_VERSION = 1;
+const LUT_STORE_NAME = 'luts';
+const STOCK_STORE_NAME = 'filmStocks';
+const IMAGE_STORE_NAME = 'images';
+const DB_VERSION = 6;
+// Index name to key path. The compound indexes keep each stock, ISO or detail level in time order.
+const HISTORY_INDEXES = {
+  timestamp: 'timestamp',
+  cacheKey: 'cacheKey',
+  filmStock_timestamp: ['filmStock', 'timestamp'],
+  iso_timestamp: ['iso', 'timestamp'],
+  skinDetail_timestamp: ['skinDetail', 'timestamp']
+} as const;
+// v4 single-field indexes, superseded by the compound ones in v6
+const RETIRED_HISTORY_INDEXES = ['filmStock', 'iso'];
+
+type HistoryIndex = keyof typeof HISTORY_INDEXES;
+
+// History records point at their images instead of inlining base64 data URLs.
+// `originalUrl`/`processedUrl` only survive on records whose images could not be migrated.
+export type HistoryMetadata = Omit<ProcessedImage, 'originalUrl' | 'processedUrl' | 'selected'>;
+
+type StoredHistoryRecord = HistoryMetadata & {
+  originalKey?: string;
+  processedKey?: string;
+  originalUrl?: string;
+  processedUrl?: string;
+};
+
+interface StoredImage {
+  id: string;
+  blob: Blob;
+}
+
+export interface HistoryCursor {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
+}
+
+export interface HistoryQuery {
+  limit?: number;
+  after?: HistoryCursor | null;
+  filmStock?: FilmStock;
+  iso?: ISOValue;
+  sort?: HistorySort;
+  where?: (record: HistoryMetadata) => boolean; // Runs on metadata only, before any image is read
+}
+
+export interface HistoryPage {
+  items: ProcessedImage[];
+  next: HistoryCursor | null;
+}
+
+const imageKey = (id: string, role: 'original' | 'processed') => `${id}:${role}`;
+
+// blob: URLs handed out for stored images, so each Blob is only wrapped once and can be released on delete.
+const objectUrls = new Map<string, string>();
+
+const objectUrlFor = (key: string, blob: Blob) => {
+  let url = objectUrls.get(key);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    objectUrls.set(key, url);
+  }
+  return url;
+};
+
+const releaseObjectUrl = (key?: string) => {
+  const url = key && objectUrls.get(key);
+  if (url) {
+    URL.revokeObjectURL(url);
+    objectUrls.delete(key!);
+  }
+};
+
+// Revokes the blob: URLs of stored images the caller no longer holds. Pass every URL still in use.
+export const releaseObjectUrls = (inUse: Iterable<string | null | undefined>) => {
+  const keep = new Set(inUse);
+  Array.from(objectUrls.entries()).forEach(([key, url]) => {
+    if (!keep.has(url)) releaseObjectUrl(key);
+  });
+};
+
+// v4 migration: moves inline data URLs out of v1-v3 history records into the image store as Blobs.
+const migrateInlineImages = (history: IDBObjectStore, images: IDBObjectStore) => {
+  const request = history.openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const record = { ...cursor.value } as StoredHistoryRecord;
+    (['original', 'processed'] as const).forEach(role => {
+      const field = role === 'original' ? 'originalUrl' : 'processedUrl';
+      const url = record[field];
+      if (typeof url !== 'string' || !url.startsWith('data:')) return;
+      try {
+        const key = imageKey(record.id, role);
+        images.put({ id: key, blob: dataUrlToBlob(url) } as StoredImage);
+        record[role === 'original' ? 'originalKey' : 'processedKey'] = key;
+        delete record[field];
+      } catch (e) {
+        // Leave the data URL inline; the record is still readable as before.
+        console.error(`Could not migrate ${role} image of print ${record.id}`, e);
+      }
+    });
+    delete (record as Partial<ProcessedImage>).selected;
+    cursor.update(record);
+    cursor.continue();
+  };
+};
 
 export const initDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -11,9 +118,34 @@ export const initDB = (): Promise<IDBDatabase> => {
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      const upgrade = (event.target as IDBOpenDBRequest).transaction!;
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'id' });
       }
+      // v2: imported .cube LUTs, one per film stock
+      if (!db.objectStoreNames.contains(LUT_STORE_NAME)) {
+        db.createObjectStore(LUT_STORE_NAME, { keyPath: 'stock' });
+      }
+      // v3: user-defined film stock profiles
+      if (!db.objectStoreNames.contains(STOCK_STORE_NAME)) {
+        db.createObjectStore(STOCK_STORE_NAME, { keyPath: 'name' });
+      }
+      // v4: images stored as Blobs in their own store, history indexed for paging and filtering
+      if (!db.objectStoreNames.contains(IMAGE_STORE_NAME)) {
+        db.createObjectStore(IMAGE_STORE_NAME, { keyPath: 'id' });
+      }
+      // v5 adds the cacheKey index, used to find an identical earlier development;
+      // v6 replaces the stock and ISO indexes with compound ones that page in time order
+      const history = upgrade.objectStore(STORE_NAME);
+      Object.entries(HISTORY_INDEXES).forEach(([name, keyPath]) => {
+        if (!history.indexNames.contains(name)) history.createIndex(name, keyPath as string | string[]);
+      });
+      RETIRED_HISTORY_INDEXES.forEach(name => {
+        if (history.indexNames.contains(name)) history.deleteIndex(name);
+      });
+      if (event.oldVersion > 0 && event.oldVersion < 4) {
+        migrateInlineImages(history, upgrade.objectStore(IMAGE_STORE_NAME));
+      }
     };
 
     request.onsuccess = () => resolve(request.result);
@@ -21,52 +153,343 @@ export const initDB = (): Promise<IDBDatabase> => {
   });
 };
 
-export const saveHistoryItem = async (item: ProcessedImage): Promise<void> => {
+// Pass `images` when the Blobs are already at hand (archive import) to skip re-reading the URLs.
+export const saveHistoryItem = async (item: ProcessedImage, images?: { original: Blob; processed: Blob }): Promise<void> => {
+  // Blobs are resolved up front; awaiting inside the transaction would let it auto-commit.
+  const [original, processed] = images
+    ? [images.original, images.processed]
+    : await Promise.all([urlToBlob(item.originalUrl), urlToBlob(item.processedUrl)]);
+  const { originalUrl, processedUrl, selected, ...rest } = item;
+  const record: StoredHistoryRecord = {
+    ...rest,
+    originalKey: imageKey(item.id, 'original'),
+    processedKey: imageKey(item.id, 'processed')
+  };
+
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(item);
+    const transaction = db.transaction([STORE_NAME, IMAGE_STORE_NAME], 'readwrite');
+    const images = transaction.objectStore(IMAGE_STORE_NAME);
+    images.put({ id: record.originalKey, blob: original } as StoredImage);
+    images.put({ id: record.processedKey, blob: processed } as StoredImage);
+    transaction.objectStore(STORE_NAME).put(record);
 
-    request.onsuccess = () => resolve();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    // A quota failure while the Blobs commit only aborts the transaction, without an error event
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const hydrateRecords = async (db: IDBDatabase, records: StoredHistoryRecord[]): Promise<ProcessedImage[]> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(IMAGE_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(IMAGE_STORE_NAME);
+    const items: ProcessedImage[] = records.map(({ originalKey, processedKey, ...record }) => ({
+      ...record,
+      originalUrl: record.originalUrl ?? '',
+      processedUrl: record.processedUrl ?? '',
+      selected: false
+    }));
+
+    records.forEach((record, index) => {
+      (['originalKey', 'processedKey'] as const).forEach(field => {
+        const key = record[field];
+        if (!key) return;
+        const request = store.get(key);
+        request.onsuccess = () => {
+          const stored = request.result as StoredImage | undefined;
+          if (!stored) return;
+          items[index][field === 'originalKey' ? 'originalUrl' : 'processedUrl'] = objectUrlFor(key, stored.blob);
+        };
+      });
+    });
+
+    transaction.oncomplete = () => resolve(items);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+type WalkDirection = 'next' | 'prev';
+
+interface HistoryWalk {
+  index: HistoryIndex;
+  direction: WalkDirection; // Timestamp order, within each group when grouped
+  groups?: WalkDirection; // Walks the index one leading key at a time, in this order
+  only?: IDBValidKey; // Restricts a grouped walk to one leading key
+}
+
+// Grouped sorts list each group newest first, so every group is walked backwards on its own.
+const planWalk = ({ sort = 'newest', filmStock, iso }: HistoryQuery): HistoryWalk => {
+  const direction: WalkDirection = sort === 'oldest' ? 'next' : 'prev';
+  switch (sort) {
+    case 'stock': return { index: 'filmStock_timestamp', direction: 'prev', groups: 'next', only: filmStock };
+    case 'iso-asc': return { index: 'iso_timestamp', direction: 'prev', groups: 'next', only: iso };
+    case 'iso-desc': return { index: 'iso_timestamp', direction: 'prev', groups: 'prev', only: iso };
+    case 'detail-desc': return { index: 'skinDetail_timestamp', direction: 'prev', groups: 'prev' };
+    case 'detail-asc': return { index: 'skinDetail_timestamp', direction: 'prev', groups: 'next' };
+  }
+  if (filmStock !== undefined) return { index: 'filmStock_timestamp', direction, only: filmStock };
+  if (iso !== undefined) return { index: 'iso_timestamp', direction, only: iso };
+  return { index: 'timestamp', direction };
+};
+
+// Timestamps are numbers, so ±Infinity brackets every key of a group.
+const groupRange = (group: IDBValidKey, direction: WalkDirection, after?: HistoryCursor | null) =>
+  IDBKeyRange.bound(
+    direction === 'next' && after ? after.key : [group, -Infinity],
+    direction === 'prev' && after ? after.key : [group, Infinity]
+  );
+
+// The leading key of the group after `group` in walking order, or of the first group when `group` is undefined.
+const adjacentGroup = (db: IDBDatabase, index: HistoryIndex, group: IDBValidKey | undefined, direction: WalkDirection): Promise<IDBValidKey | undefined> => {
+  return new Promise((resolve, reject) => {
+    const range = group === undefined
+      ? null
+      : direction === 'next' ? IDBKeyRange.lowerBound([group, Infinity], true) : IDBKeyRange.upperBound([group, -Infinity], true);
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index(index).openKeyCursor(range, direction);
+    request.onsuccess = () => resolve(request.result ? (request.result.key as IDBValidKey[])[0] : undefined);
     request.onerror = () => reject(request.error);
   });
 };
 
+// Appends matching records from `range` until `records` holds `limit`, returning where the walk stopped (null once the range runs out).
+const collectRecords = (
+  db: IDBDatabase,
+  index: HistoryIndex,
+  range: IDBKeyRange | null,
+  direction: WalkDirection,
+  after: HistoryCursor | null | undefined,
+  { limit = Infinity, where }: HistoryQuery,
+  records: StoredHistoryRecord[]
+): Promise<HistoryCursor | null> => {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index(index).openCursor(range, direction);
+    let resumed = !after;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(null);
+        return;
+      }
+      if (after) {
+        const sameKey = indexedDB.cmp(cursor.key, after.key) === 0;
+        // Positive while the cursor has not yet reached `after` in walking order
+        const order = sameKey ? indexedDB.cmp(cursor.primaryKey, after.primaryKey) * (direction === 'next' ? -1 : 1) : -1;
+        if (order === 0) {
+          resumed = true;
+          cursor.continue();
+          return;
+        }
+        if (!resumed && order > 0) {
+          resumed = true;
+          cursor.continuePrimaryKey(after.key, after.primaryKey);
+          return;
+        }
+        resumed = true;
+      }
+      const record = cursor.value as StoredHistoryRecord;
+      if (where && !where(record)) {
+        cursor.continue();
+        return;
+      }
+      records.push(record);
+      if (records.length >= limit) {
+        resolve({ key: cursor.key, primaryKey: cursor.primaryKey });
+        return;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Reads one page of history in `sort` order (newest first by default). Chronological
+ * sheets walk the `timestamp` index, or the stock/ISO compound index when filtering on
+ * one; the other sorts walk their compound index group by group, newest first within
+ * each. Stocks come in index order, which compares code units rather than locale.
+ * Pass the returned `next` cursor back as `after` to continue where the page ended.
+ */
+export const getHistoryPage = async (query: HistoryQuery = {}): Promise<HistoryPage> => {
+  const { after } = query;
+  const db = await initDB();
+  const walk = planWalk(query);
+  const records: StoredHistoryRecord[] = [];
+  let next: HistoryCursor | null = null;
+
+  if (!walk.groups && walk.only === undefined) {
+    const range = after ? (walk.direction === 'next' ? IDBKeyRange.lowerBound(after.key) : IDBKeyRange.upperBound(after.key)) : null;
+    next = await collectRecords(db, walk.index, range, walk.direction, after, query, records);
+  } else {
+    let resumeFrom = after;
+    let group = walk.only ?? (after ? (after.key as IDBValidKey[])[0] : await adjacentGroup(db, walk.index, undefined, walk.groups!));
+    while (group !== undefined) {
+      next = await collectRecords(db, walk.index, groupRange(group, walk.direction, resumeFrom), walk.direction, resumeFrom, query, records);
+      if (next || walk.only !== undefined) break;
+      resumeFrom = null;
+      group = await adjacentGroup(db, walk.index, group, walk.groups!);
+    }
+  }
+
+  return { items: await hydrateRecords(db, records), next };
+};
+
 export const getHistory = async (): Promise<ProcessedImage[]> => {
+  const { items } = await getHistoryPage();
+  return items;
+};
+
+export const getHistoryMetadata = async (id: string): Promise<HistoryMetadata | undefined> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.getAll();
+    const request = transaction.objectStore(STORE_NAME).get(id);
 
     request.onsuccess = () => {
-      const items = request.result as ProcessedImage[];
-      // Sort by timestamp descending
-      resolve(items.sort((a, b) => b.timestamp - a.timestamp));
+      const record = request.result as StoredHistoryRecord | undefined;
+      if (!record) return resolve(undefined);
+      const { originalKey, processedKey, originalUrl, processedUrl, ...metadata } = record;
+      resolve(metadata);
     };
     request.onerror = () => reject(request.error);
   });
 };
 
+// Newest print developed from exactly the same request, if any.
+export const findHistoryByCacheKey = async (cacheKey: string): Promise<ProcessedImage | undefined> => {
+  const db = await initDB();
+  const records = await new Promise<StoredHistoryRecord[]>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).index('cacheKey').getAll(cacheKey);
+
+    request.onsuccess = () => resolve(request.result as StoredHistoryRecord[]);
+    request.onerror = () => reject(request.error);
+  });
+  if (records.length === 0) return undefined;
+  const newest = records.reduce((latest, record) => record.timestamp > latest.timestamp ? record : latest);
+  const [item] = await hydrateRecords(db, [newest]);
+  return item;
+};
+
+export const countHistory = async (): Promise<number> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).count();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
 export const deleteHistoryItemFromDB = async (id: string): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const transaction = db.transaction([STORE_NAME, IMAGE_STORE_NAME], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(id);
+    const request = store.get(id);
+
+    request.onsuccess = () => {
+      const record = request.result as StoredHistoryRecord | undefined;
+      const images = transaction.objectStore(IMAGE_STORE_NAME);
+      [record?.originalKey, record?.processedKey].forEach(key => {
+        if (!key) return;
+        images.delete(key);
+        releaseObjectUrl(key);
+      });
+      store.delete(id);
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const clearHistoryDB = async (): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, IMAGE_STORE_NAME], 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.objectStore(IMAGE_STORE_NAME).clear();
+
+    transaction.oncomplete = () => {
+      Array.from(objectUrls.keys()).forEach(releaseObjectUrl);
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const saveStockLut = async (lut: StoredLut): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(LUT_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(LUT_STORE_NAME);
+    const request = store.put(lut);
 
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
 };
 
-export const clearHistoryDB = async (): Promise<void> => {
+export const getStockLuts = async (): Promise<StoredLut[]> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.clear();
+    const transaction = db.transaction(LUT_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(LUT_STORE_NAME);
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve(request.result as StoredLut[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteStockLut = async (stock: FilmStock): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(LUT_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(LUT_STORE_NAME);
+    const request = store.delete(stock);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveFilmStockProfile = async (profile: FilmStockProfile): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STOCK_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STOCK_STORE_NAME);
+    const request = store.put(profile);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getFilmStockProfiles = async (): Promise<FilmStockProfile[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STOCK_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(STOCK_STORE_NAME);
+    const request = store.getAll();
+
+    request.onsuccess = () => {
+      const profiles = request.result as FilmStockProfile[];
+      resolve(profiles.sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0)));
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteFilmStockProfile = async (name: FilmStock): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STOCK_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STOCK_STORE_NAME);
+    const request = store.delete(name);
 
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
@@ -0,0 +1,54 @@
+import { AspectRatio, ColorLut, DevelopmentRecipe, FilmStockProfile, PrintMask, ProcessorId } from "../types";
+import { dataUrlToBlob } from "./canvasUtils";
+
+export interface DevelopmentRequest {
+  sourceData: string; // data: URL of the negative
+  prompt: string;
+  recipe: DevelopmentRecipe;
+  stock: FilmStockProfile; // Resolved definition, so edits to a custom stock never match older prints
+  aspectRatio: AspectRatio;
+  processor: ProcessorId;
+  lut: ColorLut | null; // The grade actually applied, hashed by its data rather than its title
+  mask?: PrintMask;
+  tiles?: number;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Content address of a development: SHA-256 over the source image bytes, the final
+ * prompt, the full recipe and stock definition, and the local steps applied afterwards,
+ * including the LUT lattice itself. The recipe is hashed on its own because a template
+ * may leave stock or ISO out of the prompt, and the local engine never reads the prompt.
+ * Two requests share a key only when they would bill for and produce the same print.
+ */
+export const developmentKey = async (request: DevelopmentRequest): Promise<string> => {
+  const { sourceData, recipe, stock, lut, mask } = request;
+  const source = new Uint8Array(await dataUrlToBlob(sourceData).arrayBuffer());
+  // The theme only colors the lab and createdAt only orders the shelf; neither shapes the print
+  const { theme, createdAt, ...stockDefinition } = stock;
+  const lutData = lut ? new Uint8Array(lut.data.buffer, lut.data.byteOffset, lut.data.byteLength) : new Uint8Array(0);
+  const described = new TextEncoder().encode(JSON.stringify({
+    sourceBytes: source.byteLength,
+    prompt: request.prompt,
+    recipe: {
+      filmStock: recipe.filmStock,
+      iso: recipe.iso,
+      skinDetail: recipe.skinDetail,
+      imageSize: recipe.imageSize,
+      lutStrength: lut ? recipe.lutStrength : 0
+    },
+    stock: stockDefinition,
+    aspectRatio: request.aspectRatio,
+    processor: request.processor,
+    lut: lut ? { size: lut.size, domainMin: lut.domainMin, domainMax: lut.domainMax, dataBytes: lutData.byteLength } : null,
+    mask: mask ? [mask.dataUrl, mask.feather] : null,
+    tiles: request.tiles ?? 1
+  }));
+  const payload = new Uint8Array(source.byteLength + described.byteLength + lutData.byteLength);
+  payload.set(source, 0);
+  payload.set(described, source.byteLength);
+  payload.set(lutData, source.byteLength + described.byteLength);
+  return toHex(await crypto.subtle.digest('SHA-256', payload));
+};
@@ -0,0 +1,81 @@
+import { BatchJob, ProcessedImage } from "../types";
+import { toLabError } from "./labError";
+
+export const MAX_CONCURRENCY = 4;
+
+interface DevelopmentQueueOptions {
+  concurrency: number;
+  develop: (job: BatchJob) => Promise<ProcessedImage>;
+  onUpdate: (jobs: BatchJob[]) => void;
+  onDeveloped: (job: BatchJob, entry: ProcessedImage) => void;
+}
+
+export interface DevelopmentQueue {
+  enqueue: (jobs: BatchJob[]) => void;
+  pause: () => void;
+  resume: () => void;
+  setConcurrency: (value: number) => void;
+  clearFinished: () => void;
+  isPaused: () => boolean;
+}
+
+export const createDevelopmentQueue = (options: DevelopmentQueueOptions): DevelopmentQueue => {
+  let jobs: BatchJob[] = [];
+  let active = 0;
+  let paused = false;
+  let concurrency = Math.min(Math.max(options.concurrency, 1), MAX_CONCURRENCY);
+
+  const update = (id: string, patch: Partial<BatchJob>) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...patch } : job);
+    options.onUpdate(jobs);
+  };
+
+  const run = async (job: BatchJob) => {
+    active++;
+    update(job.id, { status: 'developing', error: undefined, errorCode: undefined });
+    try {
+      const entry = await options.develop(job);
+      update(job.id, { status: 'done', resultId: entry.id });
+      options.onDeveloped(job, entry);
+    } catch (err) {
+      // A rejected frame is marked on its own; the rest of the roll keeps developing
+      const labError = toLabError(err);
+      update(job.id, { status: 'rejected', error: labError.why ? `${labError.message} ${labError.why}` : labError.message, errorCode: labError.code });
+    } finally {
+      active--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (!paused && active < concurrency) {
+      const next = jobs.find(job => job.status === 'queued');
+      if (!next) return;
+      run(next);
+    }
+  };
+
+  return {
+    enqueue: (newJobs) => {
+      jobs = [...jobs, ...newJobs.map(job => ({ ...job, status: 'queued' as const }))];
+      options.onUpdate(jobs);
+      pump();
+    },
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      pump();
+    },
+    setConcurrency: (value) => {
+      concurrency = Math.min(Math.max(value, 1), MAX_CONCURRENCY);
+      pump();
+    },
+    clearFinished: () => {
+      jobs = jobs.filter(job => job.status === 'queued' || job.status === 'developing');
+      options.onUpdate(jobs);
+    },
+    isPaused: () => paused,
+  };
+};
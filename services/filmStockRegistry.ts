@@ -0,0 +1,105 @@
+import { BuiltInFilmStock, FilmStock, FilmStockProfile, ISOValue, ThemeConfig } from "../types";
+
+export const ISO_VALUES: ISOValue[] = [200, 400, 800, 1600];
+
+const FILM_STOCK_CHARACTERISTICS: Record<BuiltInFilmStock, string> = {
+  'Kodak Portra 400': 'Legendary skin tones. Warm, golden hues with a natural highlight roll-off. Ideal for portraits requiring a soft, organic feel.',
+  'Kodak Gold 200': 'The classic consumer aesthetic. Saturated yellows and punchy reds with a warm, nostalgic 90s snapshot vibe.',
+  'Kodak Ektachrome E100': 'Professional color reversal film. Exceptional sharpness, clean cool shadows, and neutral, realistic whites.',
+  'Kodak Tri-X 400 (B&W)': 'High-contrast monochrome. Gritty, punchy textures with deep blacks and a legendary journalistic character.',
+  'Fujifilm Velvia 50': 'Hyper-saturated color. Intense greens and magentas with very high contrast. A distinctive, high-drama slide film look.',
+  'Fujifilm Provia 100F': 'Balanced professional slide film. Neutral color reproduction with incredible sharpness and fine grain structure.',
+  'Fujifilm Pro 400H': 'Pastel palette. Soft, airy tones with a signature subtle cyan/green tint in the shadows. Perfect for ethereal lighting.',
+  'Ilford HP5 Plus (B&W)': 'Classic street photography film. Wide tonal range with a punchy, organic grain that feels raw and authentic.',
+  'Cinestill 800T': 'Cinematic tungsten-balanced film. Unique "red glow" halation around bright lights with a cool, moody night-time color shift.'
+};
+
+export const THEMES: Record<string, ThemeConfig> = {
+  kodak: {
+    brand: '#E12127', // Red
+    accent: '#FFD500', // Yellow
+    logo: 'K',
+    logoBg: '#FFD500',
+    logoText: '#E12127'
+  },
+  fuji: {
+    brand: '#00843D', // Fuji Green
+    accent: '#FFFFFF', // White
+    logo: 'F',
+    logoBg: '#FFFFFF',
+    logoText: '#00843D'
+  },
+  mono: {
+    brand: '#FFFFFF', // White
+    accent: '#444444', // Dark Grey
+    logo: 'I',
+    logoBg: '#222222',
+    logoText: '#FFFFFF'
+  }
+};
+
+const getThemeForStock = (stock: BuiltInFilmStock): ThemeConfig => {
+  if (stock.includes('Kodak') && !stock.includes('B&W')) return THEMES.kodak;
+  if (stock.includes('Fujifilm')) return THEMES.fuji;
+  if (stock.includes('Cinestill')) return { ...THEMES.mono, logo: 'C' };
+  if (stock.includes('B&W') || stock.includes('Ilford')) return THEMES.mono;
+  return THEMES.kodak;
+};
+
+const getManufacturer = (stock: BuiltInFilmStock) => {
+  if (stock.includes('Fuji')) return 'Fujifilm';
+  if (stock.includes('Cinestill')) return 'Cinestill';
+  if (stock.includes('Ilford')) return 'Ilford';
+  return 'Kodak';
+};
+
+export const BUILT_IN_STOCKS = Object.keys(FILM_STOCK_CHARACTERISTICS) as BuiltInFilmStock[];
+
+export const BUILT_IN_PROFILES: FilmStockProfile[] = BUILT_IN_STOCKS.map(stock => ({
+  name: stock,
+  manufacturer: getManufacturer(stock),
+  characteristics: FILM_STOCK_CHARACTERISTICS[stock],
+  isoRange: ISO_VALUES,
+  monochrome: stock.includes('(B&W)'),
+  theme: getThemeForStock(stock),
+  baseStock: stock,
+  builtIn: true
+}));
+
+export const isBuiltInStock = (stock: FilmStock): stock is BuiltInFilmStock => stock in FILM_STOCK_CHARACTERISTICS;
+
+/**
+ * Looks a stock up among the built-ins and the user's custom profiles. History
+ * entries may name a custom stock that has since been deleted, so unknown names
+ * resolve to a neutral profile instead of failing.
+ */
+export const resolveStockProfile = (stock: FilmStock, customProfiles: FilmStockProfile[]): FilmStockProfile => {
+  return BUILT_IN_PROFILES.find(profile => profile.name === stock)
+    ?? customProfiles.find(profile => profile.name === stock)
+    ?? {
+      name: stock,
+      manufacturer: 'Custom',
+      characteristics: '',
+      isoRange: ISO_VALUES,
+      monochrome: false,
+      theme: THEMES.kodak,
+      builtIn: false
+    };
+};
+
+// Snaps an ISO to the closest speed the stock allows.
+export const clampIsoToProfile = (iso: ISOValue, profile: FilmStockProfile): ISOValue => {
+  if (profile.isoRange.length === 0 || profile.isoRange.includes(iso)) return iso;
+  return profile.isoRange.reduce((prev, curr) => Math.abs(curr - iso) < Math.abs(prev - iso) ? curr : prev);
+};
+
+export const createCustomProfile = (): FilmStockProfile => ({
+  name: '',
+  manufacturer: 'House',
+  characteristics: '',
+  isoRange: ISO_VALUES,
+  monochrome: false,
+  theme: { ...THEMES.kodak, logo: 'H' },
+  baseStock: 'Kodak Portra 400',
+  builtIn: false
+});
@@ -1,19 +1,31 @@
 import { GoogleGenAI } from "@google/genai";
 import { ImageSize, AspectRatio } from "../types";
+import type { ImageProcessor } from "./imageProcessor";
+import { LabError, isLabError, throwIfAborted } from "./labError";
+
+export const GEMINI_IMAGE_MODEL = 'gemini-3-pro-image-preview';
+
+// Rate-limit errors carry a RetryInfo detail ("retryDelay": "37s") or a "retry in 37.5s" hint.
+const parseRetryAfterMs = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
 
 export const processImage = async (
   base64Image: string,
   mimeType: string,
   prompt: string,
   size: ImageSize = '1K',
-  aspectRatio: AspectRatio = '1:1'
+  aspectRatio: AspectRatio = '1:1',
+  model: string = GEMINI_IMAGE_MODEL,
+  signal?: AbortSignal
 ): Promise<string> => {
   // Always create a fresh instance to ensure the most up-to-date key is used
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
   try {
     const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
+      model: model,
       contents: {
         parts: [
           {
@@ -32,27 +44,53 @@ export const processImage = async (
           aspectRatio: aspectRatio,
           imageSize: size,
         },
+        abortSignal: signal,
       },
     });
 
     // Check if the overall response was blocked at the prompt level
     if (!response.candidates || response.candidates.length === 0) {
-      throw new Error("REJECTION: The Lab could not process this image. WHY: The source image triggered automated safety filters, which often happens with content that is interpreted as sensitive or restricted. REMEDY: Please try a different photo. Ensure the subject is clearly a standard portrait and the composition is neutral.");
+      throw new LabError({
+        code: 'SAFETY',
+        message: "The Lab could not process this image.",
+        why: "The source image triggered automated safety filters, which often happens with content that is interpreted as sensitive or restricted.",
+        remedy: "Please try a different photo. Ensure the subject is clearly a standard portrait and the composition is neutral.",
+        finishReason: response.promptFeedback?.blockReason
+      });
     }
 
     const candidate = response.candidates[0];
 
     // Handle specific finish reasons with helpful plain-English explanations
     if (candidate.finishReason === 'SAFETY') {
-      throw new Error("REJECTION: Development halted due to safety guardrails. WHY: The Emulsion Engine detected features in the image that are restricted for processing. This is a common precaution for certain types of portraits. REMEDY: Try an image with more standard lighting, a clear head-and-shoulders crop, or a different character subject.");
+      throw new LabError({
+        code: 'SAFETY',
+        message: "Development halted due to safety guardrails.",
+        why: "The Emulsion Engine detected features in the image that are restricted for processing. This is a common precaution for certain types of portraits.",
+        remedy: "Try an image with more standard lighting, a clear head-and-shoulders crop, or a different character subject.",
+        finishReason: candidate.finishReason
+      });
     }
 
     if (candidate.finishReason === 'RECITATION') {
-      throw new Error("REJECTION: Style processing failed. WHY: The requested development style or the subject matter closely matches protected content or copyright-sensitive material. REMEDY: Try a different film stock or a less specific subject to proceed with development.");
+      throw new LabError({
+        code: 'RECITATION',
+        message: "Style processing failed.",
+        why: "The requested development style or the subject matter closely matches protected content or copyright-sensitive material.",
+        remedy: "Try a different film stock or a less specific subject to proceed with development.",
+        finishReason: candidate.finishReason
+      });
     }
 
     if (candidate.finishReason === 'OTHER') {
-      throw new Error("REJECTION: An unexpected lab interruption occurred. WHY: The model encountered an internal error or the content was rejected for an unspecified safety reason. REMEDY: Attempt the development again with a slightly different grain intensity or a new source image.");
+      throw new LabError({
+        code: 'INTERRUPTED',
+        message: "An unexpected lab interruption occurred.",
+        why: "The model encountered an internal error or the content was rejected for an unspecified safety reason.",
+        remedy: "Attempt the development again with a slightly different grain intensity or a new source image.",
+        retryable: true,
+        finishReason: candidate.finishReason
+      });
     }
 
     // Iterate through parts to find the image
@@ -70,17 +108,32 @@ export const processImage = async (
 
     // If we got here, no image was found. Check if there was descriptive text explaining why.
     if (refusalText.trim()) {
-      throw new Error(`REJECTION: The Lab encountered a problem. WHY: ${refusalText.trim()} REMEDY: Adjust your input image or settings to resolve the concern mentioned above.`);
+      throw new LabError({
+        code: 'NO_IMAGE',
+        message: "The Lab encountered a problem.",
+        why: refusalText.trim(),
+        remedy: "Adjust your input image or settings to resolve the concern mentioned above.",
+        finishReason: candidate.finishReason
+      });
     }
 
     // Final fallback for missing content
-    throw new Error("REJECTION: The Lab was unable to generate the new texture. WHY: Although the image was accepted, the reconstruction process failed to complete safely. REMEDY: Please try a different image. Ensure the person is in a well-lit environment and the framing is a typical photographic portrait.");
+    throw new LabError({
+      code: 'NO_IMAGE',
+      message: "The Lab was unable to generate the new texture.",
+      why: "Although the image was accepted, the reconstruction process failed to complete safely.",
+      remedy: "Please try a different image. Ensure the person is in a well-lit environment and the framing is a typical photographic portrait.",
+      finishReason: candidate.finishReason
+    });
 
   } catch (error: any) {
+    // A cancelled or timed-out request surfaces as the abort reason, not an API failure
+    throwIfAborted(signal);
+
     console.error("Gemini API Error Detail:", error);
     
-    // Pass through our custom REJECTION errors
-    if (error.message && error.message.startsWith("REJECTION:")) {
+    // Pass through rejections raised above
+    if (isLabError(error)) {
       throw error;
     }
 
@@ -88,17 +141,60 @@ export const processImage = async (
     const errorMessage = error.message || "";
     
     if (errorMessage.includes("403") || error.status === 403) {
-      throw new Error("PERMISSION_DENIED: gemini-3-pro-image-preview requires a PAID API key from a Google Cloud project with billing enabled. Please check your project status at ai.google.dev/gemini-api/docs/billing");
+      throw new LabError({
+        code: 'PERMISSION',
+        message: "Permission denied.",
+        why: `${model} requires a PAID API key from a Google Cloud project with billing enabled.`,
+        remedy: "Please check your project status at ai.google.dev/gemini-api/docs/billing",
+        cause: error
+      });
     }
 
     if (errorMessage.includes("Requested entity was not found.")) {
-      throw new Error("KEY_RESET_REQUIRED");
+      throw new LabError({
+        code: 'KEY_RESET',
+        message: "The linked API key is no longer valid.",
+        remedy: "Select your API key again to continue developing.",
+        cause: error
+      });
     }
 
-    if (errorMessage.includes("429")) {
-      throw new Error("The lab is busy. WHY: Rate limit exceeded. REMEDY: Please wait 60 seconds before submitting the next negative for development.");
+    if (errorMessage.includes("429") || error.status === 429) {
+      throw new LabError({
+        code: 'RATE_LIMIT',
+        message: "The lab is busy.",
+        why: "Rate limit exceeded.",
+        remedy: "Please wait 60 seconds before submitting the next negative for development.",
+        retryable: true,
+        retryAfterMs: parseRetryAfterMs(errorMessage),
+        cause: error
+      });
     }
 
-    throw new Error(errorMessage || "A technical chemical imbalance occurred in the lab. Please check your connection and try again.");
+    if (error instanceof TypeError || error.status >= 500) {
+      throw new LabError({
+        code: 'NETWORK',
+        message: "The lab lost contact with the Emulsion Engine.",
+        why: errorMessage || undefined,
+        remedy: "Please check your connection and try again.",
+        retryable: true,
+        cause: error
+      });
+    }
+
+    throw new LabError({
+      code: 'UNKNOWN',
+      message: errorMessage || "A technical chemical imbalance occurred in the lab. Please check your connection and try again.",
+      cause: error
+    });
   }
-};
\ No newline at end of file
+};
+export const createGeminiProcessor = (model: string = GEMINI_IMAGE_MODEL): ImageProcessor => ({
+  id: 'gemini',
+  label: 'Gemini 3 Pro',
+  description: 'Cloud reconstruction of skin texture and grain. Requires a paid API key.',
+  requiresKey: true,
+  develop: (input, recipe, signal) => processImage(input.base64Data, input.mimeType, input.prompt, recipe.imageSize, input.aspectRatio, model, signal)
+});
+
+export const geminiProcessor = createGeminiProcessor();
@@ -0,0 +1,123 @@
+import { BuiltInFilmStock, FilmStock, GrainCharacter, ISOValue } from "../types";
+import { loadImage, createCanvas, createRandom, hashString, clamp255 } from "./canvasUtils";
+
+export interface GrainProfile {
+  size: number;      // Grain clump size in output pixels
+  amplitude: number; // Peak deviation in 8-bit levels at mid-grey
+  chroma: number;    // 0 = monochrome grain, 1 = fully independent per-channel grain
+  shadowLift: number; // Extra grain carried into the shadows (dense negative areas)
+}
+
+const ISO_GRAIN: Record<ISOValue, { size: number; amplitude: number }> = {
+  200: { size: 1.0, amplitude: 7 },
+  400: { size: 1.35, amplitude: 11 },
+  800: { size: 1.75, amplitude: 16 },
+  1600: { size: 2.3, amplitude: 23 }
+};
+
+const DEFAULT_GRAIN: GrainCharacter = { character: 1.0, sizeBias: 1.0, chroma: 0.35, shadowLift: 0.25 };
+
+const STOCK_GRAIN: Record<BuiltInFilmStock, GrainCharacter> = {
+  'Kodak Portra 400': { character: 0.8, sizeBias: 0.9, chroma: 0.35, shadowLift: 0.25 },
+  'Kodak Gold 200': { character: 1.0, sizeBias: 1.0, chroma: 0.45, shadowLift: 0.3 },
+  'Kodak Ektachrome E100': { character: 0.6, sizeBias: 0.8, chroma: 0.25, shadowLift: 0.15 },
+  'Kodak Tri-X 400 (B&W)': { character: 1.3, sizeBias: 1.15, chroma: 0, shadowLift: 0.4 },
+  'Fujifilm Velvia 50': { character: 0.55, sizeBias: 0.75, chroma: 0.3, shadowLift: 0.1 },
+  'Fujifilm Provia 100F': { character: 0.6, sizeBias: 0.8, chroma: 0.3, shadowLift: 0.15 },
+  'Fujifilm Pro 400H': { character: 0.85, sizeBias: 0.95, chroma: 0.4, shadowLift: 0.25 },
+  'Ilford HP5 Plus (B&W)': { character: 1.2, sizeBias: 1.1, chroma: 0, shadowLift: 0.35 },
+  'Cinestill 800T': { character: 1.1, sizeBias: 1.05, chroma: 0.55, shadowLift: 0.35 }
+};
+
+export const getBuiltInGrain = (stock: FilmStock): GrainCharacter =>
+  STOCK_GRAIN[stock as BuiltInFilmStock] ?? DEFAULT_GRAIN;
+
+// Custom stocks pass their own grain character; built-ins use the table above.
+export const getGrainProfile = (stock: FilmStock, iso: ISOValue, character?: GrainCharacter): GrainProfile => {
+  const base = ISO_GRAIN[iso];
+  const stockGrain = character ?? getBuiltInGrain(stock);
+  return {
+    size: base.size * stockGrain.sizeBias,
+    amplitude: base.amplitude * stockGrain.character,
+    chroma: stockGrain.chroma,
+    shadowLift: stockGrain.shadowLift
+  };
+};
+
+// Gaussian-ish noise sampled on a coarse lattice and bilinearly interpolated, so grain clumps
+// grow with `size` instead of staying single-pixel salt and pepper. Only the lattice is stored,
+// which keeps 4K prints from allocating full-resolution noise planes.
+const createNoiseLattice = (width: number, height: number, size: number, random: () => number) => {
+  const cell = Math.max(size, 1);
+  const gridW = Math.ceil(width / cell) + 2;
+  const gridH = Math.ceil(height / cell) + 2;
+  const grid = new Float32Array(gridW * gridH);
+  for (let i = 0; i < grid.length; i++) {
+    grid[i] = random() + random() + random() - 1.5;
+  }
+
+  return (x: number, y: number) => {
+    const gx = x / cell;
+    const gy = y / cell;
+    const x0 = Math.floor(gx);
+    const y0 = Math.floor(gy);
+    const fx = gx - x0;
+    const fy = gy - y0;
+    const i = y0 * gridW + x0;
+    const top = grid[i] + (grid[i + 1] - grid[i]) * fx;
+    const bottom = grid[i + gridW] + (grid[i + gridW + 1] - grid[i + gridW]) * fx;
+    return top + (bottom - top) * fy;
+  };
+};
+
+/**
+ * Renders grain into an RGBA buffer in place. Intensity follows luminance:
+ * strongest in the midtones, lifted slightly in the shadows and fading out
+ * towards clipped highlights, the way density varies on a real negative.
+ */
+export const renderGrain = (frame: ImageData, profile: GrainProfile, seed: number, strength = 1) => {
+  const { width, height, data } = frame;
+  const random = createRandom(seed);
+  const mono = createNoiseLattice(width, height, profile.size, random);
+  const chroma = profile.chroma > 0
+    ? [0, 1, 2].map(() => createNoiseLattice(width, height, profile.size * 0.8, random))
+    : null;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const luma = (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) / 255;
+      const midtone = 4 * luma * (1 - luma);
+      const weight = Math.min(1, midtone + profile.shadowLift * (1 - luma) * (1 - luma));
+      const amount = profile.amplitude * strength * weight;
+
+      // A little per-pixel noise keeps the edges of the clumps crisp like silver halide
+      const base = mono(x, y) * 0.8 + (random() - 0.5) * 0.4;
+      for (let c = 0; c < 3; c++) {
+        const noise = chroma
+          ? base * (1 - profile.chroma) + (chroma[c](x, y) * 0.8 + (random() - 0.5) * 0.4) * profile.chroma
+          : base;
+        data[i + c] = clamp255(data[i + c] + noise * amount);
+      }
+    }
+  }
+};
+
+export const grainSeed = (sourceUrl: string, stock: FilmStock, iso: ISOValue) =>
+  hashString(`${sourceUrl.length}:${sourceUrl.slice(-256)}:${stock}:${iso}`);
+
+// Re-grains an image (developed print or original) entirely in the browser.
+export const applyGrain = async (
+  sourceUrl: string,
+  stock: FilmStock,
+  iso: ISOValue,
+  options: { seed?: number; strength?: number; character?: GrainCharacter } = {}
+): Promise<string> => {
+  const img = await loadImage(sourceUrl);
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  renderGrain(frame, getGrainProfile(stock, iso, options.character), options.seed ?? grainSeed(sourceUrl, stock, iso), options.strength);
+  ctx.putImageData(frame, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,120 @@
+import { AspectRatio, HistoryFilter, HistorySort, ImageSize, ISOValue, ProcessedImage } from "../types";
+import { ISO_VALUES } from "./filmStockRegistry";
+
+type PrintMetadata = Pick<ProcessedImage, 'timestamp' | 'prompt' | 'size' | 'aspectRatio' | 'filmStock' | 'iso' | 'skinDetail'>;
+
+export const DEFAULT_HISTORY_FILTER: HistoryFilter = { skinMin: 0, skinMax: 100, text: '' };
+
+export const HISTORY_SORTS: { value: HistorySort; label: string }[] = [
+  { value: 'newest', label: 'Newest First' },
+  { value: 'oldest', label: 'Oldest First' },
+  { value: 'stock', label: 'Film Stock' },
+  { value: 'iso-asc', label: 'ISO Low-High' },
+  { value: 'iso-desc', label: 'ISO High-Low' },
+  { value: 'detail-desc', label: 'Most Skin Detail' },
+  { value: 'detail-asc', label: 'Least Skin Detail' }
+];
+
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isFilterActive = (filter: HistoryFilter) =>
+  !!(filter.filmStock || filter.iso || filter.size || filter.aspectRatio || filter.from || filter.to || filter.text.trim()) ||
+  filter.skinMin > 0 ||
+  filter.skinMax < 100;
+
+export const matchesHistoryFilter = (item: PrintMetadata, filter: HistoryFilter) => {
+  if (filter.filmStock && item.filmStock !== filter.filmStock) return false;
+  if (filter.iso && item.iso !== filter.iso) return false;
+  if (filter.size && item.size !== filter.size) return false;
+  if (filter.aspectRatio && item.aspectRatio !== filter.aspectRatio) return false;
+  const detail = item.skinDetail ?? 50;
+  if (detail < filter.skinMin || detail > filter.skinMax) return false;
+  if (filter.from && item.timestamp < new Date(`${filter.from}T00:00:00`).getTime()) return false;
+  if (filter.to && item.timestamp > new Date(`${filter.to}T23:59:59.999`).getTime()) return false;
+  const terms = filter.text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length) {
+    const prompt = (item.prompt || '').toLowerCase();
+    if (!terms.every(term => prompt.includes(term))) return false;
+  }
+  return true;
+};
+
+export const compareHistory = (sort: HistorySort) => (a: PrintMetadata, b: PrintMetadata): number => {
+  switch (sort) {
+    case 'oldest': return a.timestamp - b.timestamp;
+    case 'stock': return a.filmStock.localeCompare(b.filmStock) || b.timestamp - a.timestamp;
+    case 'iso-asc': return a.iso - b.iso || b.timestamp - a.timestamp;
+    case 'iso-desc': return b.iso - a.iso || b.timestamp - a.timestamp;
+    case 'detail-desc': return (b.skinDetail ?? 50) - (a.skinDetail ?? 50) || b.timestamp - a.timestamp;
+    case 'detail-asc': return (a.skinDetail ?? 50) - (b.skinDetail ?? 50) || b.timestamp - a.timestamp;
+    default: return b.timestamp - a.timestamp;
+  }
+};
+
+export interface PrintStack<T> {
+  id: string;
+  prints: T[];
+}
+
+// Groups re-developments and variants of one source, keeping the order of the first print in each stack.
+export const groupIntoStacks = <T extends { id: string; stackId?: string }>(items: T[]): PrintStack<T>[] => {
+  const stacks = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = item.stackId ?? item.id;
+    const prints = stacks.get(key);
+    if (prints) prints.push(item);
+    else stacks.set(key, [item]);
+  });
+  return Array.from(stacks, ([id, prints]) => ({ id, prints }));
+};
+
+// Filter state lives in the query string so a filtered contact sheet can be bookmarked or shared.
+export const readHistoryQuery = (search: string): { filter: HistoryFilter; sort: HistorySort } => {
+  const params = new URLSearchParams(search);
+  const iso = Number(params.get('iso')) as ISOValue;
+  const size = params.get('size') as ImageSize;
+  const aspect = params.get('aspect') as AspectRatio;
+  const [skinMin, skinMax] = (params.get('detail') || '').split('-').map(v => parseInt(v));
+  const date = (key: string) => {
+    const value = params.get(key);
+    return value && DATE_PATTERN.test(value) ? value : undefined;
+  };
+  const sort = params.get('sort') as HistorySort;
+
+  return {
+    filter: {
+      filmStock: params.get('stock') || undefined,
+      iso: ISO_VALUES.includes(iso) ? iso : undefined,
+      skinMin: Number.isFinite(skinMin) ? Math.min(Math.max(skinMin, 0), 100) : 0,
+      skinMax: Number.isFinite(skinMax) ? Math.min(Math.max(skinMax, 0), 100) : 100,
+      size: IMAGE_SIZES.includes(size) ? size : undefined,
+      aspectRatio: ASPECT_RATIOS.includes(aspect) ? aspect : undefined,
+      from: date('from'),
+      to: date('to'),
+      text: params.get('q') || ''
+    },
+    sort: HISTORY_SORTS.some(option => option.value === sort) ? sort : 'newest'
+  };
+};
+
+// Returns the current query string with the contact sheet keys replaced; unrelated parameters are kept.
+export const writeHistoryQuery = (search: string, filter: HistoryFilter, sort: HistorySort) => {
+  const params = new URLSearchParams(search);
+  const set = (key: string, value?: string | number) => {
+    if (value === undefined || value === '') params.delete(key);
+    else params.set(key, String(value));
+  };
+  set('stock', filter.filmStock);
+  set('iso', filter.iso);
+  set('detail', filter.skinMin > 0 || filter.skinMax < 100 ? `${filter.skinMin}-${filter.skinMax}` : undefined);
+  set('size', filter.size);
+  set('aspect', filter.aspectRatio);
+  set('from', filter.from);
+  set('to', filter.to);
+  set('q', filter.text.trim() || undefined);
+  set('sort', sort === 'newest' ? undefined : sort);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
@@ -0,0 +1,222 @@
+import { DriftMetrics } from "../types";
+import { createCanvas, loadImage } from "./canvasUtils";
+
+// Inspection works on a downscaled copy; drift shows up long before full resolution matters.
+export const ANALYSIS_LONG_EDGE = 1024;
+
+export interface DifferenceMap {
+  width: number;
+  height: number;
+  values: Float32Array; // Per-pixel RGB distance, 0 (identical) to 1 (black vs white)
+}
+
+// Heatmap ramp: black for no change through red and yellow to white for the largest change.
+const HEATMAP_STOPS: [number, [number, number, number]][] = [
+  [0, [0, 0, 0]],
+  [0.35, [225, 33, 39]],
+  [0.7, [255, 204, 0]],
+  [1, [255, 255, 255]]
+];
+
+/**
+ * Samples both frames onto the same pixel grid. The original is stretched to the
+ * developed print's proportions, as in mask compositing, so pixels line up as long
+ * as the engine kept the composition.
+ */
+export const sampleFramePair = async (originalUrl: string, processedUrl: string, longEdge = ANALYSIS_LONG_EDGE) => {
+  const [original, processed] = await Promise.all([loadImage(originalUrl), loadImage(processedUrl)]);
+  const scale = Math.min(1, longEdge / Math.max(processed.naturalWidth, processed.naturalHeight));
+  const width = Math.max(1, Math.round(processed.naturalWidth * scale));
+  const height = Math.max(1, Math.round(processed.naturalHeight * scale));
+  const { ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(original, 0, 0, width, height);
+  const before = ctx.getImageData(0, 0, width, height);
+  ctx.drawImage(processed, 0, 0, width, height);
+  const after = ctx.getImageData(0, 0, width, height);
+  return { width, height, before, after };
+};
+
+export const computeDifference = async (originalUrl: string, processedUrl: string, longEdge = ANALYSIS_LONG_EDGE): Promise<DifferenceMap> => {
+  const { width, height, before, after } = await sampleFramePair(originalUrl, processedUrl, longEdge);
+  const values = new Float32Array(width * height);
+  const norm = 255 * Math.sqrt(3);
+  for (let p = 0; p < values.length; p++) {
+    const i = p * 4;
+    const dr = before.data[i] - after.data[i];
+    const dg = before.data[i + 1] - after.data[i + 1];
+    const db = before.data[i + 2] - after.data[i + 2];
+    values[p] = Math.sqrt(dr * dr + dg * dg + db * db) / norm;
+  }
+  return { width, height, values };
+};
+
+const heatmapColor = (value: number): [number, number, number] => {
+  for (let s = 1; s < HEATMAP_STOPS.length; s++) {
+    const [end, to] = HEATMAP_STOPS[s];
+    if (value <= end) {
+      const [start, from] = HEATMAP_STOPS[s - 1];
+      const t = (value - start) / (end - start);
+      return [0, 1, 2].map(c => from[c] + (to[c] - from[c]) * t) as [number, number, number];
+    }
+  }
+  return HEATMAP_STOPS[HEATMAP_STOPS.length - 1][1];
+};
+
+// Colors the difference map; gain stretches subtle drift into the visible range.
+export const renderHeatmap = (map: DifferenceMap, gain: number): ImageData => {
+  const frame = new ImageData(map.width, map.height);
+  // Quantize through a lookup table; the ramp is evaluated 256 times instead of once per pixel
+  const table = Array.from({ length: 256 }, (_, level) => heatmapColor(level / 255));
+  for (let p = 0; p < map.values.length; p++) {
+    const [r, g, b] = table[Math.min(255, Math.round(map.values[p] * gain * 255))];
+    const i = p * 4;
+    frame.data[i] = r;
+    frame.data[i + 1] = g;
+    frame.data[i + 2] = b;
+    frame.data[i + 3] = 255;
+  }
+  return frame;
+};
+
+// Drift is judged on a small luminance copy: grain and pore texture, which the lab is
+// meant to change, average out well before faces, props and composition do.
+const DRIFT_LONG_EDGE = 256;
+const SSIM_WINDOW = 8;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+export const DRIFT_THRESHOLDS = {
+  minSsim: 0.55,
+  maxEdgeDifference: 0.5,
+  maxDeltaE: 30 // Film stocks shift color on purpose, so only gross casts count
+};
+
+const toLuminance = (frame: ImageData) => {
+  const values = new Float32Array(frame.width * frame.height);
+  for (let p = 0; p < values.length; p++) {
+    const i = p * 4;
+    values[p] = 0.299 * frame.data[i] + 0.587 * frame.data[i + 1] + 0.114 * frame.data[i + 2];
+  }
+  return values;
+};
+
+// Mean SSIM over non-overlapping windows.
+const structuralSimilarity = (a: Float32Array, b: Float32Array, width: number, height: number) => {
+  let total = 0;
+  let windows = 0;
+  const size = SSIM_WINDOW * SSIM_WINDOW;
+  for (let wy = 0; wy + SSIM_WINDOW <= height; wy += SSIM_WINDOW) {
+    for (let wx = 0; wx + SSIM_WINDOW <= width; wx += SSIM_WINDOW) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let y = wy; y < wy + SSIM_WINDOW; y++) {
+        for (let x = wx; x < wx + SSIM_WINDOW; x++) {
+          const va = a[y * width + x];
+          const vb = b[y * width + x];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+      const meanA = sumA / size;
+      const meanB = sumB / size;
+      const varA = sumAA / size - meanA * meanA;
+      const varB = sumBB / size - meanB * meanB;
+      const covariance = sumAB / size - meanA * meanB;
+      total += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+      windows++;
+    }
+  }
+  return windows > 0 ? total / windows : 1;
+};
+
+// Sobel gradient magnitude; the one-pixel border is left at zero.
+const edgeMagnitude = (values: Float32Array, width: number, height: number) => {
+  const edges = new Float32Array(values.length);
+  const at = (x: number, y: number) => values[y * width + x];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      edges[y * width + x] = Math.sqrt(gx * gx + gy * gy);
+    }
+  }
+  return edges;
+};
+
+// 1 minus the correlation of both edge maps: 0 when every contour is where it was, ~1 when unrelated.
+const edgeDifference = (a: Float32Array, b: Float32Array) => {
+  let meanA = 0, meanB = 0;
+  for (let i = 0; i < a.length; i++) {
+    meanA += a[i];
+    meanB += b[i];
+  }
+  meanA /= a.length;
+  meanB /= b.length;
+  let covariance = 0, varA = 0, varB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    covariance += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  if (varA === 0 || varB === 0) return varA === varB ? 0 : 1;
+  return Math.min(1, Math.max(0, 1 - covariance / Math.sqrt(varA * varB)));
+};
+
+// sRGB (0-255) to CIE L*a*b* under D65.
+const toLab = ([r, g, b]: number[]) => {
+  const linear = [r, g, b].map(v => {
+    const c = v / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  const x = (0.4124 * linear[0] + 0.3576 * linear[1] + 0.1805 * linear[2]) / 0.95047;
+  const y = 0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2];
+  const z = (0.0193 * linear[0] + 0.1192 * linear[1] + 0.9505 * linear[2]) / 1.08883;
+  const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+};
+
+const meanColor = (frame: ImageData) => {
+  const sums = [0, 0, 0];
+  const pixels = frame.width * frame.height;
+  for (let i = 0; i < frame.data.length; i += 4) {
+    sums[0] += frame.data[i];
+    sums[1] += frame.data[i + 1];
+    sums[2] += frame.data[i + 2];
+  }
+  return sums.map(sum => sum / pixels);
+};
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+export const measureDrift = async (originalUrl: string, processedUrl: string): Promise<DriftMetrics> => {
+  const { width, height, before, after } = await sampleFramePair(originalUrl, processedUrl, DRIFT_LONG_EDGE);
+  const lumaBefore = toLuminance(before);
+  const lumaAfter = toLuminance(after);
+  const colorBefore = meanColor(before);
+  const colorAfter = meanColor(after);
+  const [l1, a1, b1] = toLab(colorBefore);
+  const [l2, a2, b2] = toLab(colorAfter);
+  return {
+    ssim: round(structuralSimilarity(lumaBefore, lumaAfter, width, height), 3),
+    edgeDifference: round(edgeDifference(edgeMagnitude(lumaBefore, width, height), edgeMagnitude(lumaAfter, width, height)), 3),
+    colorShift: {
+      deltaE: round(Math.sqrt((l2 - l1) ** 2 + (a2 - a1) ** 2 + (b2 - b1) ** 2), 1),
+      r: round(colorAfter[0] - colorBefore[0], 1),
+      g: round(colorAfter[1] - colorBefore[1], 1),
+      b: round(colorAfter[2] - colorBefore[2], 1)
+    }
+  };
+};
+
+// Human-readable reasons a print drifted past the thresholds; empty when it kept its identity.
+export const driftWarnings = (metrics: DriftMetrics): string[] => [
+  ...(metrics.ssim < DRIFT_THRESHOLDS.minSsim ? [`Structural similarity ${metrics.ssim} is below ${DRIFT_THRESHOLDS.minSsim}`] : []),
+  ...(metrics.edgeDifference > DRIFT_THRESHOLDS.maxEdgeDifference ? [`Edge structure changed by ${Math.round(metrics.edgeDifference * 100)}%`] : []),
+  ...(metrics.colorShift.deltaE > DRIFT_THRESHOLDS.maxDeltaE ? [`Overall color shifted by ΔE ${metrics.colorShift.deltaE}`] : [])
+];
@@ -0,0 +1,18 @@
+import { DevelopmentInput, DevelopmentRecipe, ProcessorId } from "../types";
+import { geminiProcessor } from "./geminiService";
+import { localProcessor } from "./localProcessor";
+
+export interface ImageProcessor {
+  id: ProcessorId;
+  label: string;
+  description: string;
+  requiresKey: boolean; // Whether the AI Studio key session must be active before developing
+  develop: (input: DevelopmentInput, recipe: DevelopmentRecipe, signal?: AbortSignal) => Promise<string>;
+}
+
+export const PROCESSORS: Record<ProcessorId, ImageProcessor> = {
+  gemini: geminiProcessor,
+  local: localProcessor
+};
+
+export const getProcessor = (id: ProcessorId): ImageProcessor => PROCESSORS[id] ?? geminiProcessor;
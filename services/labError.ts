@@ -0,0 +1,109 @@
+import { LabErrorCode, LabErrorInfo } from "../types";
+
+interface LabErrorOptions {
+  code: LabErrorCode;
+  message: string;
+  why?: string;
+  remedy?: string;
+  retryable?: boolean;
+  finishReason?: string;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+/**
+ * Typed failure thrown by the development pipeline. Callers branch on `code`
+ * and `retryable` instead of parsing the message text.
+ */
+export class LabError extends Error implements LabErrorInfo {
+  code: LabErrorCode;
+  why?: string;
+  remedy?: string;
+  retryable: boolean;
+  finishReason?: string;
+  retryAfterMs?: number; // Server-suggested wait before trying again
+
+  constructor(options: LabErrorOptions) {
+    super(options.message, { cause: options.cause });
+    this.name = 'LabError';
+    this.code = options.code;
+    this.why = options.why;
+    this.remedy = options.remedy;
+    this.retryable = options.retryable ?? false;
+    this.finishReason = options.finishReason;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  // Plain snapshot for React state and persisted records
+  toInfo(): LabErrorInfo {
+    return {
+      code: this.code,
+      message: this.message,
+      why: this.why,
+      remedy: this.remedy,
+      retryable: this.retryable,
+      finishReason: this.finishReason
+    };
+  }
+}
+
+export const isLabError = (error: unknown): error is LabError => error instanceof LabError;
+
+export const toLabError = (error: unknown): LabError => {
+  if (isLabError(error)) return error;
+  const raw = typeof error === 'object' && error !== null && 'message' in error ? error.message : undefined;
+  const message = (typeof raw === 'string' && raw) || "A technical chemical imbalance occurred in the lab. Please check your connection and try again.";
+  return new LabError({ code: 'UNKNOWN', message, cause: error });
+};
+
+export const createCancelledError = () => new LabError({
+  code: 'CANCELLED',
+  message: "Development cancelled.",
+  why: "The development was stopped before the print was fixed. Nothing was written to the contact sheet."
+});
+
+export const createBudgetError = (period: 'daily' | 'monthly', spent: number, cap: number) => new LabError({
+  code: 'BUDGET',
+  message: `The ${period} budget is spent.`,
+  why: `Estimated spending, including developments still in the lab, is $${spent.toFixed(2)} against a ${period} cap of $${cap.toFixed(2)}. Another paid print would go over it, so nothing more is sent to a paid engine.`,
+  remedy: period === 'daily'
+    ? "Wait until tomorrow, raise the cap in the usage panel, or develop with the local engine."
+    : "Wait until next month, raise the cap in the usage panel, or develop with the local engine."
+});
+
+export const createTimeoutError = (timeoutMs: number) => new LabError({
+  code: 'TIMEOUT',
+  message: "The development ran out of time.",
+  why: `The Emulsion Engine did not return a print within ${Math.round(timeoutMs / 1000)} seconds.`,
+  remedy: "Try a smaller output size or raise the development timeout in the lab settings."
+});
+
+// Rethrows the abort reason (a LabError for cancel/timeout) once a signal has fired.
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw toLabError(signal.reason ?? createCancelledError());
+  }
+};
+
+/**
+ * Derives a signal that aborts when `signal` does or after `timeoutMs`,
+ * whichever comes first. Call `dispose` once the work settles.
+ */
+export const withTimeout = (signal: AbortSignal | undefined, timeoutMs?: number) => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+  const timer = timeoutMs ? setTimeout(() => controller.abort(createTimeoutError(timeoutMs)), timeoutMs) : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+};
@@ -0,0 +1,40 @@
+import { DevelopmentInput, DevelopmentRecipe } from "../types";
+import type { ImageProcessor } from "./imageProcessor";
+import { throwIfAborted } from "./labError";
+import { OUTPUT_LONG_EDGE, loadImage, drawScaled, hashString } from "./canvasUtils";
+import { getGrainProfile, renderGrain } from "./grainEngine";
+import { applyLut, buildStockLut } from "./lutService";
+
+/**
+ * Offline darkroom: a deterministic in-browser stand-in for the Gemini lab.
+ * It applies the stock's built-in LUT and ISO-scaled grain, so the full
+ * develop/history/compare flow works without a key, billing or network.
+ */
+export const developLocally = async (input: DevelopmentInput, recipe: DevelopmentRecipe, signal?: AbortSignal): Promise<string> => {
+  const img = await loadImage(`data:${input.mimeType};base64,${input.base64Data}`);
+  throwIfAborted(signal);
+  const { canvas, ctx } = drawScaled(img, OUTPUT_LONG_EDGE[recipe.imageSize]);
+  const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  // With grading enabled the lab applies the (possibly imported) stock LUT afterwards, so don't grade twice
+  const profile = input.stockProfile;
+  if (!recipe.lutStrength) {
+    applyLut(frame, buildStockLut(profile?.baseStock ?? recipe.filmStock));
+  }
+
+  const seed = hashString(`${input.base64Data.length}:${input.base64Data.slice(0, 512)}:${recipe.filmStock}:${recipe.iso}:${recipe.skinDetail}`);
+  const grainStock = profile?.baseStock ?? recipe.filmStock;
+  renderGrain(frame, getGrainProfile(grainStock, recipe.iso, profile?.grain), seed, 0.6 + recipe.skinDetail / 125);
+
+  throwIfAborted(signal);
+  ctx.putImageData(frame, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+export const localProcessor: ImageProcessor = {
+  id: 'local',
+  label: 'Offline Darkroom',
+  description: 'Deterministic in-browser grain and tone. No key, no billing, no network.',
+  requiresKey: false,
+  develop: developLocally
+};
@@ -0,0 +1,197 @@
+import { BuiltInFilmStock, ColorLut, FilmStock } from "../types";
+import { loadImage, createCanvas, clamp255 } from "./canvasUtils";
+
+type RGB = [number, number, number];
+
+interface StockLook {
+  warmth: number;       // Positive pushes red/yellow, negative pushes blue (0..1 channel units)
+  saturation: number;   // 1 = unchanged, 0 = monochrome
+  contrast: number;     // Slope around mid-grey
+  fade: number;         // Black-point lift, the matte look of scanned negatives
+  shadowTint: RGB;      // Additive tint weighted towards the shadows
+  highlightTint: RGB;   // Additive tint weighted towards the highlights
+  mono?: RGB;           // Channel mix for black & white stocks
+}
+
+const NEUTRAL_LOOK: StockLook = { warmth: 0, saturation: 1, contrast: 1, fade: 0, shadowTint: [0, 0, 0], highlightTint: [0, 0, 0] };
+
+const STOCK_LOOKS: Record<BuiltInFilmStock, StockLook> = {
+  'Kodak Portra 400': { warmth: 0.03, saturation: 0.9, contrast: 0.95, fade: 0.03, shadowTint: [0.015, 0.008, 0], highlightTint: [0.02, 0.01, -0.01] },
+  'Kodak Gold 200': { warmth: 0.055, saturation: 1.15, contrast: 1.05, fade: 0.02, shadowTint: [0.02, 0.01, -0.015], highlightTint: [0.03, 0.02, -0.03] },
+  'Kodak Ektachrome E100': { warmth: -0.015, saturation: 1.05, contrast: 1.1, fade: 0, shadowTint: [-0.01, 0, 0.025], highlightTint: [0, 0, 0] },
+  'Kodak Tri-X 400 (B&W)': { warmth: 0, saturation: 0, contrast: 1.25, fade: 0.02, shadowTint: [0, 0, 0], highlightTint: [0, 0, 0], mono: [0.3, 0.59, 0.11] },
+  'Fujifilm Velvia 50': { warmth: 0.01, saturation: 1.35, contrast: 1.2, fade: 0, shadowTint: [0.015, -0.01, 0.025], highlightTint: [0, 0.01, 0] },
+  'Fujifilm Provia 100F': { warmth: 0, saturation: 1.05, contrast: 1.05, fade: 0, shadowTint: [0, 0, 0.008], highlightTint: [0, 0, 0] },
+  'Fujifilm Pro 400H': { warmth: -0.01, saturation: 0.85, contrast: 0.9, fade: 0.04, shadowTint: [-0.015, 0.025, 0.025], highlightTint: [0, 0.01, 0.005] },
+  'Ilford HP5 Plus (B&W)': { warmth: 0, saturation: 0, contrast: 1.1, fade: 0.03, shadowTint: [0, 0, 0], highlightTint: [0, 0, 0], mono: [0.25, 0.6, 0.15] },
+  'Cinestill 800T': { warmth: -0.05, saturation: 1.0, contrast: 1.05, fade: 0.02, shadowTint: [-0.01, 0.015, 0.05], highlightTint: [0.03, 0, -0.01] }
+};
+
+export const DEFAULT_LUT_SIZE = 33;
+
+const clamp01 = (value: number) => (value < 0 ? 0 : value > 1 ? 1 : value);
+
+const gradePixel = (look: StockLook, input: RGB): RGB => {
+  let [r, g, b] = input;
+  r += look.warmth;
+  g += look.warmth * 0.4;
+  b -= look.warmth;
+
+  if (look.mono) {
+    const mono = r * look.mono[0] + g * look.mono[1] + b * look.mono[2];
+    r = g = b = mono;
+  }
+
+  const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+  r = luma + (r - luma) * look.saturation;
+  g = luma + (g - luma) * look.saturation;
+  b = luma + (b - luma) * look.saturation;
+
+  const shadow = (1 - luma) * (1 - luma);
+  const highlight = luma * luma;
+  const out = [r, g, b].map((v, c) => {
+    const contrasted = (v - 0.5) * look.contrast + 0.5;
+    const toned = contrasted + look.shadowTint[c] * shadow + look.highlightTint[c] * highlight;
+    return look.fade + clamp01(toned) * (1 - look.fade);
+  });
+  return [out[0], out[1], out[2]];
+};
+
+const builtInCache = new Map<FilmStock, ColorLut>();
+
+// Procedural LUT that encodes the stock's rendition. Cached, since every print of a stock shares it.
+// Stocks without a built-in look (custom profiles with no base stock) get an identity LUT.
+export const buildStockLut = (stock: FilmStock, size: number = DEFAULT_LUT_SIZE): ColorLut => {
+  const cached = builtInCache.get(stock);
+  if (cached && cached.size === size) return cached;
+
+  const look = STOCK_LOOKS[stock as BuiltInFilmStock] ?? NEUTRAL_LOOK;
+  const data = new Float32Array(size * size * size * 3);
+  let i = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const [or, og, ob] = gradePixel(look, [r / (size - 1), g / (size - 1), b / (size - 1)]);
+        data[i++] = or;
+        data[i++] = og;
+        data[i++] = ob;
+      }
+    }
+  }
+
+  const lut: ColorLut = { title: `${stock} (Built-in)`, size, data, domainMin: [0, 0, 0], domainMax: [1, 1, 1] };
+  builtInCache.set(stock, lut);
+  return lut;
+};
+
+const parseTriplet = (parts: string[], line: number): RGB => {
+  const values = parts.map(Number);
+  if (values.length !== 3 || values.some(v => !Number.isFinite(v))) {
+    throw new Error(`Malformed .cube entry on line ${line}.`);
+  }
+  return [values[0], values[1], values[2]];
+};
+
+// Parses an Adobe/Resolve .cube file. Only 3D LUTs are supported.
+export const parseCubeFile = (text: string, fallbackTitle = 'Imported LUT'): ColorLut => {
+  let title = fallbackTitle;
+  let size = 0;
+  let domainMin: RGB = [0, 0, 0];
+  let domainMax: RGB = [1, 1, 1];
+  const values: number[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    const [keyword, ...rest] = line.split(/\s+/);
+
+    if (keyword === 'TITLE') {
+      title = line.slice(5).trim().replace(/^"|"$/g, '') || fallbackTitle;
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size = parseInt(rest[0]);
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error("1D .cube LUTs are not supported. Please export a 3D LUT.");
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseTriplet(rest, index + 1);
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseTriplet(rest, index + 1);
+    } else if (/^[-+.\d]/.test(keyword)) {
+      values.push(...parseTriplet([keyword, ...rest], index + 1));
+    }
+  });
+
+  if (!size || size < 2 || size > 256) {
+    throw new Error("The .cube file is missing a valid LUT_3D_SIZE.");
+  }
+  if (values.length !== size * size * size * 3) {
+    throw new Error(`Expected ${size ** 3} entries for a ${size}-point LUT but found ${values.length / 3}.`);
+  }
+
+  return { title, size, data: Float32Array.from(values), domainMin, domainMax };
+};
+
+export const serializeCube = (lut: ColorLut): string => {
+  const lines = [
+    `TITLE "${lut.title}"`,
+    `# Exported from De-Synthesize Pro`,
+    `LUT_3D_SIZE ${lut.size}`,
+    `DOMAIN_MIN ${lut.domainMin.join(' ')}`,
+    `DOMAIN_MAX ${lut.domainMax.join(' ')}`
+  ];
+  for (let i = 0; i < lut.data.length; i += 3) {
+    lines.push(`${lut.data[i].toFixed(6)} ${lut.data[i + 1].toFixed(6)} ${lut.data[i + 2].toFixed(6)}`);
+  }
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Grades an RGBA buffer in place through the LUT with trilinear interpolation.
+ * `strength` blends between the untouched pixel (0) and the full grade (1).
+ */
+export const applyLut = (frame: ImageData, lut: ColorLut, strength = 1) => {
+  const { data } = frame;
+  const { size, data: table, domainMin, domainMax } = lut;
+  const max = size - 1;
+  const amount = clamp01(strength);
+  const toCoord = (value: number, c: number) =>
+    clamp01((value / 255 - domainMin[c]) / (domainMax[c] - domainMin[c])) * max;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const cr = toCoord(data[i], 0);
+    const cg = toCoord(data[i + 1], 1);
+    const cb = toCoord(data[i + 2], 2);
+    const r0 = Math.min(Math.floor(cr), max - 1);
+    const g0 = Math.min(Math.floor(cg), max - 1);
+    const b0 = Math.min(Math.floor(cb), max - 1);
+    const fr = cr - r0;
+    const fg = cg - g0;
+    const fb = cb - b0;
+
+    // Offsets of the eight lattice corners around the sample (red varies fastest in .cube order)
+    const base = ((b0 * size + g0) * size + r0) * 3;
+    const dg = size * 3;
+    const db = size * size * 3;
+
+    for (let c = 0; c < 3; c++) {
+      const p = base + c;
+      const c00 = table[p] + (table[p + 3] - table[p]) * fr;
+      const c10 = table[p + dg] + (table[p + dg + 3] - table[p + dg]) * fr;
+      const c01 = table[p + db] + (table[p + db + 3] - table[p + db]) * fr;
+      const c11 = table[p + db + dg] + (table[p + db + dg + 3] - table[p + db + dg]) * fr;
+      const c0 = c00 + (c10 - c00) * fg;
+      const c1 = c01 + (c11 - c01) * fg;
+      const graded = (c0 + (c1 - c0) * fb) * 255;
+      data[i + c] = clamp255(data[i + c] + (graded - data[i + c]) * amount);
+    }
+  }
+};
+
+export const applyLutToImage = async (sourceUrl: string, lut: ColorLut, strength = 1): Promise<string> => {
+  const img = await loadImage(sourceUrl);
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyLut(frame, lut, strength);
+  ctx.putImageData(frame, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,74 @@
+import { PrintMask } from "../types";
+import { createCanvas, loadImage } from "./canvasUtils";
+
+// Masks are painted and stored at this size; feathering happens here too, then the
+// soft mask is scaled up to the print, which is far cheaper than blurring at 4K.
+export const MASK_LONG_EDGE = 1024;
+export const DEFAULT_MASK_FEATHER = 12;
+
+// One running-sum box blur along rows (step 1) or columns (step = width).
+const boxBlur = (src: Float32Array, dst: Float32Array, width: number, height: number, radius: number, horizontal: boolean) => {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const step = horizontal ? 1 : width;
+  const scale = 1 / (radius * 2 + 1);
+  for (let line = 0; line < lines; line++) {
+    const start = horizontal ? line * width : line;
+    const at = (i: number) => src[start + Math.min(Math.max(i, 0), length - 1) * step];
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) sum += at(i);
+    for (let i = 0; i < length; i++) {
+      dst[start + i * step] = sum * scale;
+      sum += at(i + radius + 1) - at(i - radius);
+    }
+  }
+};
+
+// Three box passes approximate a gaussian falloff across the mask edge.
+const featherAlpha = (frame: ImageData, feather: number) => {
+  const radius = Math.max(1, Math.round(feather / 2));
+  const { width, height, data } = frame;
+  let a = new Float32Array(width * height);
+  let b = new Float32Array(width * height);
+  for (let i = 0; i < a.length; i++) a[i] = data[i * 4 + 3];
+  for (let pass = 0; pass < 3; pass++) {
+    boxBlur(a, b, width, height, radius, true);
+    boxBlur(b, a, width, height, radius, false);
+  }
+  for (let i = 0; i < a.length; i++) data[i * 4 + 3] = a[i];
+};
+
+export const isMaskEmpty = (frame: ImageData) => {
+  for (let i = 3; i < frame.data.length; i += 4) {
+    if (frame.data[i] > 0) return false;
+  }
+  return true;
+};
+
+/**
+ * Keeps the developed pixels only where the mask is painted and restores the
+ * original everywhere else. The original is stretched to the developed frame,
+ * which matches it as long as the engine kept the composition.
+ */
+export const compositeWithMask = async (originalUrl: string, developedUrl: string, mask: PrintMask): Promise<string> => {
+  const [original, developed, maskImage] = await Promise.all([loadImage(originalUrl), loadImage(developedUrl), loadImage(mask.dataUrl)]);
+
+  const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(maskImage.naturalWidth, maskImage.naturalHeight);
+  maskCtx.drawImage(maskImage, 0, 0);
+  if (mask.feather > 0) {
+    const frame = maskCtx.getImageData(0, 0, maskCanvas.width, maskCanvas.height);
+    featherAlpha(frame, mask.feather);
+    maskCtx.putImageData(frame, 0, 0);
+  }
+
+  const width = developed.naturalWidth;
+  const height = developed.naturalHeight;
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(developed, 0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(maskCanvas, 0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.drawImage(original, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+};
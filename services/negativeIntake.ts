@@ -0,0 +1,114 @@
+// Formats the browser can decode and the Emulsion Engine accepts as inline image data.
+export const ACCEPTED_NEGATIVE_TYPES: Record<string, string[]> = {
+  'image/png': ['png'],
+  'image/jpeg': ['jpg', 'jpeg'],
+  'image/webp': ['webp']
+};
+// Inline requests to the engine are limited to about 20 MB, base64 overhead included
+export const MAX_NEGATIVE_BYTES = 14 * 1024 * 1024;
+
+export const ACCEPTED_NEGATIVE_LABEL = 'PNG, JPEG or WebP';
+
+export interface RejectedNegative {
+  name: string;
+  reason: string;
+}
+
+export interface NegativeIntake {
+  accepted: File[];
+  rejected: RejectedNegative[];
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+// Files read from folders sometimes come without a type, so the extension is the fallback
+const typeOf = (file: File) =>
+  file.type || Object.keys(ACCEPTED_NEGATIVE_TYPES).find(type => ACCEPTED_NEGATIVE_TYPES[type].includes(extensionOf(file.name))) || '';
+
+const isHidden = (file: File) => file.name.startsWith('.');
+
+/**
+ * Splits incoming files into negatives the lab can develop and rejections with a
+ * reason the user can act on. Hidden files picked up from folders are dropped silently.
+ */
+export const validateNegatives = (files: File[]): NegativeIntake => {
+  const intake: NegativeIntake = { accepted: [], rejected: [] };
+  for (const file of files) {
+    if (isHidden(file)) continue;
+    const type = typeOf(file);
+    if (!(type in ACCEPTED_NEGATIVE_TYPES)) {
+      intake.rejected.push({ name: file.name, reason: `Unsupported format${type ? ` (${type})` : ''}. Use ${ACCEPTED_NEGATIVE_LABEL}.` });
+    } else if (file.size > MAX_NEGATIVE_BYTES) {
+      intake.rejected.push({ name: file.name, reason: `Too large at ${formatMegabytes(file.size)}. The limit is ${formatMegabytes(MAX_NEGATIVE_BYTES)}.` });
+    } else if (file.size === 0) {
+      intake.rejected.push({ name: file.name, reason: 'The file is empty.' });
+    } else {
+      intake.accepted.push(file);
+    }
+  }
+  return intake;
+};
+
+// Folder contents keep their name order, so a roll develops in the order it was shot
+const byName = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+export const filesFromFolder = (files: FileList | null): File[] =>
+  files ? Array.from(files).sort((a, b) => byName(a.webkitRelativePath || a.name, b.webkitRelativePath || b.name)) : [];
+
+const readDirectory = async (directory: FileSystemDirectoryEntry): Promise<File[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns the listing in batches and an empty batch at the end
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+  entries.sort((a, b) => byName(a.name, b.name));
+  const nested = await Promise.all(entries.map(readEntry));
+  return nested.flat();
+};
+
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (entry.isDirectory) return readDirectory(entry as FileSystemDirectoryEntry);
+  return [];
+};
+
+export const hasDraggedFiles = (dataTransfer: DataTransfer | null) =>
+  !!dataTransfer && Array.from(dataTransfer.types).includes('Files');
+
+/**
+ * Every file in a drop, descending into dropped folders. The entries are taken
+ * synchronously because the browser empties the DataTransfer once the drop handler yields.
+ */
+export const filesFromDrop = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const items = Array.from(dataTransfer.items).filter(item => item.kind === 'file');
+  const entries = items.map(item => item.webkitGetAsEntry?.() ?? null);
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return Array.from(dataTransfer.files);
+  }
+  const files = await Promise.all((entries as FileSystemEntry[]).map(readEntry));
+  return files.flat();
+};
+
+/**
+ * Image files on the clipboard. Copied images arrive as a generic "image.png", so
+ * they are renamed with the paste time to tell frames apart in the queue.
+ */
+export const filesFromClipboard = (clipboardData: DataTransfer | null): File[] => {
+  if (!clipboardData) return [];
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return Array.from(clipboardData.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.getAsFile())
+    .filter((file): file is File => !!file)
+    .map((file, index) => file.type.startsWith('image/')
+      ? new File([file], `Pasted-${stamp}${index > 0 ? `-${index + 1}` : ''}.${extensionOf(file.name) || 'png'}`, { type: file.type })
+      : file);
+};
@@ -0,0 +1,203 @@
+import { PrintProvenance, ProcessedImage } from "../types";
+import { createCanvas, loadImage, urlToBlob } from "./canvasUtils";
+import { getProcessor } from "./imageProcessor";
+import { recipeFromPrint, validateRecipe } from "./recipeService";
+import { isAspectRatio, isFiniteNumber, isNonEmptyString, isProcessorId, isRecord, isString } from "./typeGuards";
+import { crc32 } from "./zipArchive";
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const RECIPE_KEYWORD = 'DeSynthesize:Recipe';
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+const SOFTWARE = 'De-Synthesize Pro';
+const XMP_NAMESPACE = 'https://desynthesize.pro/ns/recipe/1.0/';
+// IPTC digital source type for media edited with a generative model
+const AI_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/compositeWithTrainedAlgorithmicMedia';
+
+const encoder = new TextEncoder();
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((value, i) => bytes[i] === value);
+
+const latin1 = (text: string) => Uint8Array.from(text, ch => {
+  const code = ch.charCodeAt(0);
+  return code < 256 ? code : 63; // '?'
+});
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+};
+
+const buildChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// tEXt is limited to Latin-1, so free text (prompts, XMP) goes in uncompressed iTXt chunks instead.
+const textChunk = (keyword: string, text: string) =>
+  buildChunk('tEXt', concat([latin1(keyword), new Uint8Array([0]), latin1(text)]));
+
+const internationalTextChunk = (keyword: string, text: string) =>
+  buildChunk('iTXt', concat([latin1(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildXmp = (provenance: PrintProvenance, processorLabel: string) => {
+  const { recipe } = provenance;
+  const attributes: [string, string | number | undefined][] = [
+    ['xmp:CreatorTool', SOFTWARE],
+    ['xmp:CreateDate', provenance.developedAt ? new Date(provenance.developedAt).toISOString() : undefined],
+    ['Iptc4xmpExt:DigitalSourceType', AI_SOURCE_TYPE],
+    ['desynth:FilmStock', recipe.filmStock],
+    ['desynth:ISO', recipe.iso],
+    ['desynth:SkinDetail', recipe.skinDetail],
+    ['desynth:ImageSize', recipe.imageSize],
+    ['desynth:LutStrength', recipe.lutStrength],
+    ['desynth:AspectRatio', provenance.aspectRatio],
+    ['desynth:Processor', processorLabel],
+    ['desynth:RecipeName', provenance.recipeName]
+  ];
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '  <rdf:Description rdf:about=""',
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '    xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    '    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"',
+    `    xmlns:desynth="${XMP_NAMESPACE}"`,
+    ...attributes.filter(([, value]) => value !== undefined).map(([key, value]) => `    ${key}="${escapeXml(String(value))}"`),
+    '  >',
+    provenance.prompt ? `   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(provenance.prompt)}</rdf:li></rdf:Alt></dc:description>` : '',
+    '  </rdf:Description>',
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>'
+  ].filter(Boolean).join('\n');
+};
+
+export const provenanceFor = (item: ProcessedImage): PrintProvenance => ({
+  printId: item.id,
+  recipe: recipeFromPrint(item),
+  recipeName: item.recipe?.name,
+  prompt: item.prompt,
+  aspectRatio: item.aspectRatio,
+  processor: item.processor ?? 'gemini',
+  developedAt: item.timestamp
+});
+
+const toPngBytes = async (url: string): Promise<Uint8Array> => {
+  const blob = await urlToBlob(url);
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (isPng(bytes)) return bytes;
+  // Engines may hand back JPEG or WebP; re-encode so the text chunks have somewhere to live
+  const img = await loadImage(url);
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const png = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(result => result ? resolve(result) : reject(new Error("The print could not be encoded as PNG.")), 'image/png'));
+  return new Uint8Array(await png.arrayBuffer());
+};
+
+/**
+ * Returns the print as a PNG carrying its recipe and provenance: tEXt/iTXt chunks
+ * for PNG-aware tools and an XMP packet for photo managers. The chunks go straight
+ * after IHDR, ahead of the image data.
+ */
+export const embedPrintMetadata = async (url: string, provenance: PrintProvenance): Promise<Blob> => {
+  const bytes = await toPngBytes(url);
+  const ihdrEnd = 8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+  const processorLabel = provenance.processor ? getProcessor(provenance.processor).label : 'Unknown';
+  const chunks = [
+    textChunk('Software', SOFTWARE),
+    textChunk('Source', processorLabel),
+    ...(provenance.developedAt ? [textChunk('Creation Time', new Date(provenance.developedAt).toUTCString())] : []),
+    ...(provenance.prompt ? [internationalTextChunk('Description', provenance.prompt)] : []),
+    internationalTextChunk(RECIPE_KEYWORD, JSON.stringify({ version: 1, ...provenance })),
+    internationalTextChunk(XMP_KEYWORD, buildXmp(provenance, processorLabel))
+  ];
+  return new Blob([bytes.subarray(0, ihdrEnd), ...chunks, bytes.subarray(ihdrEnd)], { type: 'image/png' });
+};
+
+// Collects tEXt and uncompressed iTXt entries; compressed text is not needed for our own keywords.
+const readTextChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const latin1Decoder = new TextDecoder('latin1');
+  const entries = new Map<string, string>();
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1Decoder.decode(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IDAT' || type === 'IEND') break;
+    const nul = data.indexOf(0);
+    if (nul > 0 && type === 'tEXt') {
+      entries.set(latin1Decoder.decode(data.subarray(0, nul)), latin1Decoder.decode(data.subarray(nul + 1)));
+    } else if (nul > 0 && type === 'iTXt' && data[nul + 1] === 0) {
+      const languageEnd = data.indexOf(0, nul + 3);
+      const translatedEnd = data.indexOf(0, languageEnd + 1);
+      entries.set(latin1Decoder.decode(data.subarray(0, nul)), decoder.decode(data.subarray(translatedEnd + 1)));
+    }
+    offset += 12 + length;
+  }
+  return entries;
+};
+
+const readXmpProvenance = (xmp: string): PrintProvenance | null => {
+  const attr = (name: string) => xmp.match(new RegExp(`desynth:${name}="([^"]*)"`))?.[1]
+    ?.replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+  if (!attr('FilmStock')) return null;
+  return {
+    recipe: validateRecipe({
+      filmStock: attr('FilmStock'),
+      iso: Number(attr('ISO')),
+      skinDetail: Number(attr('SkinDetail')),
+      imageSize: attr('ImageSize'),
+      lutStrength: Number(attr('LutStrength'))
+    }),
+    recipeName: attr('RecipeName')
+  };
+};
+
+// Keeps only the known, well-typed fields of embedded JSON; the file may come from anywhere.
+const parseProvenance = (raw: unknown): PrintProvenance => {
+  if (!isRecord(raw)) throw new Error("The embedded recipe is not an object.");
+  return {
+    printId: isNonEmptyString(raw.printId) ? raw.printId : undefined,
+    recipe: validateRecipe(raw.recipe),
+    recipeName: isString(raw.recipeName) ? raw.recipeName.slice(0, 60) : undefined,
+    prompt: isString(raw.prompt) ? raw.prompt : undefined,
+    aspectRatio: isAspectRatio(raw.aspectRatio) ? raw.aspectRatio : undefined,
+    processor: isProcessorId(raw.processor) ? raw.processor : undefined,
+    developedAt: isFiniteNumber(raw.developedAt) ? raw.developedAt : undefined
+  };
+};
+
+// Reads back the recipe embedded by embedPrintMetadata. Returns null for files without one.
+export const readPrintMetadata = async (file: Blob): Promise<PrintProvenance | null> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isPng(bytes)) return null;
+  const entries = readTextChunks(bytes);
+  try {
+    const json = entries.get(RECIPE_KEYWORD);
+    if (json) {
+      return parseProvenance(JSON.parse(json));
+    }
+    const xmp = entries.get(XMP_KEYWORD);
+    return xmp ? readXmpProvenance(xmp) : null;
+  } catch (err) {
+    console.warn("Ignoring unreadable recipe metadata", err);
+    return null;
+  }
+};
@@ -0,0 +1,118 @@
+import { PromptTemplate, PromptTemplateRef } from "../types";
+import { isFiniteNumber, isNonEmptyString, isRecord, isString } from "./typeGuards";
+
+const TEMPLATES_KEY = 'desynthesize_prompt_templates';
+const ACTIVE_TEMPLATE_KEY = 'desynthesize_prompt_template_active';
+
+export interface PromptVariables {
+  iso: number;
+  stock: string;
+  stockCharacteristics: string;
+  skinDetail: number;
+}
+
+export const PROMPT_VARIABLES: { name: string; description: string }[] = [
+  { name: 'skinTexture', description: 'The skin band sentence matching the detail level' },
+  { name: 'stock', description: 'Film stock name' },
+  { name: 'stockCharacteristics', description: "The stock's look description" },
+  { name: 'iso', description: 'Film speed' },
+  { name: 'skinDetail', description: 'Skin detail level, 0-100' }
+];
+
+// Reproduces the lab's original hard-coded prompt word for word.
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  id: 'builtin',
+  name: 'Lab Default',
+  version: 1,
+  body: "A portrait with {skinTexture}, while maintaining consistent lighting, props, and set design. {stockCharacteristics} Add a substantial amount of organic film grain, resembling a {iso} ISO film to the image, preserving the original aesthetic. The grain should feel raw and authentic.",
+  skinBands: {
+    low: "Apply a light photographic grain and micro-texture to the skin, effectively removing synthetic digital smoothness while keeping the character's appearance clean and polished.",
+    medium: "Restore realistic skin texture with natural variation. Preserve the character's features while adding the subtle depth and organic feel of real skin, effectively bridging the gap between digital generation and authentic photography.",
+    high: "Apply professional high-fidelity skin reconstruction. Focus on restoring intricate skin details like natural pore structure and fine organic textures. The result should feel raw and authentic, resembling an unretouched high-resolution film negative, while honoring the character's original features and avoiding any exaggerated blemishes."
+  },
+  createdAt: 0
+};
+
+// Stored entries that are not a complete template are dropped rather than crashing renderPrompt
+const parseTemplate = (raw: unknown): PromptTemplate | null => {
+  if (!isRecord(raw) || !isNonEmptyString(raw.id) || !isNonEmptyString(raw.name) || !isFiniteNumber(raw.version) || !isString(raw.body)) return null;
+  const bands = raw.skinBands;
+  if (!isRecord(bands) || !isString(bands.low) || !isString(bands.medium) || !isString(bands.high)) return null;
+  return {
+    id: raw.id,
+    name: raw.name,
+    version: raw.version,
+    body: raw.body,
+    skinBands: { low: bands.low, medium: bands.medium, high: bands.high },
+    createdAt: isFiniteNumber(raw.createdAt) ? raw.createdAt : 0
+  };
+};
+
+export const loadPromptTemplates = (): PromptTemplate[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(TEMPLATES_KEY) || '[]');
+    return Array.isArray(stored) ? stored.map(parseTemplate).filter((template): template is PromptTemplate => template !== null) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storePromptTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+export const loadActiveTemplateId = () => localStorage.getItem(ACTIVE_TEMPLATE_KEY) || DEFAULT_PROMPT_TEMPLATE.id;
+
+export const storeActiveTemplateId = (id: string) => {
+  localStorage.setItem(ACTIVE_TEMPLATE_KEY, id);
+};
+
+export const findPromptTemplate = (templates: PromptTemplate[], id: string) =>
+  templates.find(template => template.id === id) ?? DEFAULT_PROMPT_TEMPLATE;
+
+export const templateRef = ({ id, name, version }: PromptTemplate): PromptTemplateRef => ({ id, name, version });
+
+export const skinBandFor = (skinDetail: number): keyof PromptTemplate['skinBands'] =>
+  skinDetail < 30 ? 'low' : skinDetail > 70 ? 'high' : 'medium';
+
+const fill = (text: string, values: Record<string, string>) =>
+  text.replace(/\{(\w+)\}/g, (match, name: string) => name in values ? values[name] : match);
+
+export const renderPrompt = (template: Pick<PromptTemplate, 'body' | 'skinBands'>, variables: PromptVariables) => {
+  const values: Record<string, string> = {
+    iso: String(variables.iso),
+    stock: variables.stock,
+    stockCharacteristics: variables.stockCharacteristics,
+    skinDetail: String(variables.skinDetail)
+  };
+  // Bands may use the other variables too, so they are filled before going into the body
+  values.skinTexture = fill(template.skinBands[skinBandFor(variables.skinDetail)], values);
+  return fill(template.body, values).trim();
+};
+
+// Placeholders that renderPrompt would leave untouched, usually typos.
+export const unknownVariables = (template: Pick<PromptTemplate, 'body' | 'skinBands'>) => {
+  const known = new Set(PROMPT_VARIABLES.map(variable => variable.name));
+  const texts = [template.body, template.skinBands.low, template.skinBands.medium, template.skinBands.high];
+  return [...new Set(texts.flatMap(text => [...text.matchAll(/\{(\w+)\}/g)].map(match => match[1])))].filter(name => !known.has(name));
+};
+
+/**
+ * Files the draft as a new version. Saving under an existing name continues that
+ * name's numbering, and earlier versions stay so older prints can still be traced.
+ */
+export const saveTemplateVersion = (
+  templates: PromptTemplate[],
+  draft: Pick<PromptTemplate, 'body' | 'skinBands'>,
+  name: string
+): PromptTemplate => {
+  const versions = [DEFAULT_PROMPT_TEMPLATE, ...templates].filter(template => template.name === name).map(template => template.version);
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    version: versions.length > 0 ? Math.max(...versions) + 1 : 1,
+    body: draft.body,
+    skinBands: { ...draft.skinBands },
+    createdAt: Date.now()
+  };
+};
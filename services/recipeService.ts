@@ -0,0 +1,82 @@
+import { DevelopmentRecipe, ProcessedImage, SavedRecipe } from "../types";
+import { isImageSize, isIsoValue, isRecord } from "./typeGuards";
+
+const RECIPES_KEY = 'desynthesize_recipes';
+const EXPORT_FORMAT = 'de-synthesize-recipes';
+const EXPORT_VERSION = 1;
+
+export const loadRecipes = (): SavedRecipe[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECIPES_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storeRecipes = (recipes: SavedRecipe[]) => {
+  localStorage.setItem(RECIPES_KEY, JSON.stringify(recipes));
+};
+
+// The settings a stored print was developed with.
+export const recipeFromPrint = (item: ProcessedImage): DevelopmentRecipe => ({
+  filmStock: item.filmStock,
+  iso: item.iso,
+  skinDetail: item.skinDetail,
+  imageSize: item.size,
+  lutStrength: item.grade?.strength ?? 0
+});
+
+export const recipesMatch = (a: DevelopmentRecipe, b: DevelopmentRecipe) =>
+  a.filmStock === b.filmStock &&
+  a.iso === b.iso &&
+  a.skinDetail === b.skinDetail &&
+  a.imageSize === b.imageSize &&
+  (a.lutStrength ?? 0) === (b.lutStrength ?? 0);
+
+export const serializeRecipes = (recipes: SavedRecipe[]) =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: Date.now(), recipes }, null, 2);
+
+export const validateRecipe = (raw: unknown): DevelopmentRecipe => {
+  if (!isRecord(raw) || typeof raw.filmStock !== 'string' || !raw.filmStock) throw new Error("A recipe is missing its film stock.");
+  if (!isIsoValue(raw.iso)) throw new Error(`Unsupported ISO ${raw.iso} in recipe.`);
+  if (!isImageSize(raw.imageSize)) throw new Error(`Unsupported output size ${raw.imageSize} in recipe.`);
+  const skinDetail = Number(raw.skinDetail);
+  if (!Number.isFinite(skinDetail) || skinDetail < 0 || skinDetail > 100) throw new Error("Skin detail must be between 0 and 100.");
+  return {
+    filmStock: raw.filmStock,
+    iso: raw.iso,
+    skinDetail,
+    imageSize: raw.imageSize,
+    lutStrength: Math.min(Math.max(Number(raw.lutStrength) || 0, 0), 100)
+  };
+};
+
+// Accepts a file written by serializeRecipes (or a bare array of recipes).
+export const parseRecipeImport = (text: string): SavedRecipe[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The recipe file is not valid JSON.");
+  }
+  const list: unknown = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.recipes : undefined;
+  if (!Array.isArray(list)) {
+    throw new Error("No recipes were found in this file.");
+  }
+  return list.map((item: unknown): SavedRecipe => {
+    if (!isRecord(item)) throw new Error("A recipe entry is not an object.");
+    return {
+      id: typeof item.id === 'string' && item.id ? item.id : `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: String(item.name || 'Imported Recipe').slice(0, 60),
+      recipe: validateRecipe(item.recipe),
+      createdAt: Number(item.createdAt) || Date.now()
+    };
+  });
+};
+
+// Imported recipes replace local ones with the same id so re-importing a team file stays idempotent.
+export const mergeRecipes = (current: SavedRecipe[], incoming: SavedRecipe[]) => {
+  const incomingIds = new Set(incoming.map(r => r.id));
+  return [...current.filter(r => !incomingIds.has(r.id)), ...incoming];
+};
@@ -0,0 +1,74 @@
+import { toLabError, LabError, throwIfAborted } from "./labError";
+
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first one; 1 disables retrying
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryWait {
+  attempt: number;      // The attempt that just failed (1-based)
+  maxAttempts: number;
+  secondsLeft: number;  // Whole seconds until the next attempt starts
+  error: LabError;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000
+};
+
+// Exponential backoff with full jitter; a retry-after hint from the server wins when present.
+export const computeRetryDelay = (attempt: number, policy: RetryPolicy, error: LabError, random: () => number = Math.random) => {
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+  const ceiling = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return Math.round(ceiling / 2 + random() * ceiling / 2);
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(toLabError(signal?.reason));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `task` until it succeeds, the policy runs out of attempts, or the
+ * failure is not retryable (SAFETY, RECITATION, PERMISSION...). `onWait` is
+ * called once per second of backoff so the UI can show a countdown.
+ */
+export const withRetry = async <T>(
+  task: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  onWait?: (info: RetryWait) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await task(attempt);
+    } catch (err) {
+      throwIfAborted(signal);
+      const error = toLabError(err);
+      if (!error.retryable || attempt >= policy.maxAttempts) {
+        throw error;
+      }
+
+      let remaining = computeRetryDelay(attempt, policy, error);
+      while (remaining > 0) {
+        onWait?.({ attempt, maxAttempts: policy.maxAttempts, secondsLeft: Math.ceil(remaining / 1000), error });
+        const step = Math.min(remaining, 1000);
+        await wait(step, signal);
+        remaining -= step;
+      }
+    }
+  }
+};
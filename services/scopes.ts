@@ -0,0 +1,177 @@
+import { createCanvas, loadImage } from "./canvasUtils";
+
+// Histogram and parade read a downscaled copy; the grain spectrum needs native pixels.
+const SCOPE_LONG_EDGE = 512;
+const SPECTRUM_SIZE = 256;
+export const PARADE_COLUMNS = 128;
+export const SPECTRUM_BINS = SPECTRUM_SIZE / 2;
+
+export interface ScopeData {
+  histogram: { r: Uint32Array; g: Uint32Array; b: Uint32Array; luma: Uint32Array };
+  // Per channel, PARADE_COLUMNS × 256 counts: how many pixels in each column slice sit at each level
+  parade: { r: Uint32Array; g: Uint32Array; b: Uint32Array };
+  spectrum: Float32Array; // Radially averaged grain power from DC to Nyquist
+  chroma: number;         // Mean max-min channel spread, 0 for a truly monochrome frame
+  grainRms: number;       // Standard deviation of the high-pass luminance, in 8-bit levels
+  grainCentroid: number;  // Power-weighted mean frequency in cycles per pixel; lower is coarser
+}
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// In-place iterative radix-2 FFT over one row or column.
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+// Subtracts a 5×5 box blur so only grain-scale detail is left.
+const highPass = (values: Float64Array, size: number) => {
+  const out = new Float64Array(values.length);
+  const radius = 2;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        const sy = y + dy;
+        if (sy < 0 || sy >= size) continue;
+        for (let dx = -radius; dx <= radius; dx++) {
+          const sx = x + dx;
+          if (sx < 0 || sx >= size) continue;
+          sum += values[sy * size + sx];
+          count++;
+        }
+      }
+      out[y * size + x] = values[y * size + x] - sum / count;
+    }
+  }
+  return out;
+};
+
+/**
+ * Noise power spectrum of a center crop at native resolution. The crop is high-passed
+ * and windowed before the 2D FFT, then power is averaged over rings of equal frequency.
+ */
+const grainSpectrum = (img: HTMLImageElement) => {
+  const size = Math.min(SPECTRUM_SIZE, 2 ** Math.floor(Math.log2(Math.min(img.naturalWidth, img.naturalHeight))));
+  const { ctx } = createCanvas(size, size);
+  ctx.drawImage(img, Math.floor((img.naturalWidth - size) / 2), Math.floor((img.naturalHeight - size) / 2), size, size, 0, 0, size, size);
+  const { data } = ctx.getImageData(0, 0, size, size);
+  const luma = new Float64Array(size * size);
+  for (let p = 0; p < luma.length; p++) luma[p] = luminance(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+
+  const grain = highPass(luma, size);
+  let energy = 0;
+  grain.forEach(v => energy += v * v);
+  const grainRms = Math.sqrt(energy / grain.length);
+
+  const re = new Float64Array(grain.length);
+  const im = new Float64Array(grain.length);
+  const hann = (i: number) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) re[y * size + x] = grain[y * size + x] * hann(x) * hann(y);
+  }
+  const rowRe = new Float64Array(size);
+  const rowIm = new Float64Array(size);
+  for (let pass = 0; pass < 2; pass++) {
+    for (let line = 0; line < size; line++) {
+      const index = (i: number) => pass === 0 ? line * size + i : i * size + line;
+      for (let i = 0; i < size; i++) {
+        rowRe[i] = re[index(i)];
+        rowIm[i] = im[index(i)];
+      }
+      fft(rowRe, rowIm);
+      for (let i = 0; i < size; i++) {
+        re[index(i)] = rowRe[i];
+        im[index(i)] = rowIm[i];
+      }
+    }
+  }
+
+  const bins = size / 2;
+  const power = new Float64Array(bins);
+  const counts = new Uint32Array(bins);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const fy = y < bins ? y : y - size;
+      const fx = x < bins ? x : x - size;
+      const ring = Math.round(Math.sqrt(fx * fx + fy * fy));
+      if (ring >= bins) continue;
+      const i = y * size + x;
+      power[ring] += re[i] * re[i] + im[i] * im[i];
+      counts[ring]++;
+    }
+  }
+
+  // Resample onto a fixed number of bins so crops of different sizes plot on the same axis
+  const spectrum = new Float32Array(SPECTRUM_BINS);
+  let weighted = 0;
+  let total = 0;
+  for (let b = 0; b < SPECTRUM_BINS; b++) {
+    const ring = Math.min(bins - 1, Math.floor((b / SPECTRUM_BINS) * bins));
+    spectrum[b] = counts[ring] ? power[ring] / counts[ring] : 0;
+  }
+  for (let ring = 1; ring < bins; ring++) {
+    const value = counts[ring] ? power[ring] / counts[ring] : 0;
+    weighted += value * (ring / size);
+    total += value;
+  }
+  return { spectrum, grainRms, grainCentroid: total > 0 ? weighted / total : 0 };
+};
+
+export const computeScopes = async (url: string): Promise<ScopeData> => {
+  const img = await loadImage(url);
+  const scale = Math.min(1, SCOPE_LONG_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const { ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const histogram = { r: new Uint32Array(256), g: new Uint32Array(256), b: new Uint32Array(256), luma: new Uint32Array(256) };
+  const parade = { r: new Uint32Array(PARADE_COLUMNS * 256), g: new Uint32Array(PARADE_COLUMNS * 256), b: new Uint32Array(PARADE_COLUMNS * 256) };
+  let chroma = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const r = data[i], g = data[i + 1], b = data[i + 2];
+      const column = Math.floor((x / width) * PARADE_COLUMNS) * 256;
+      histogram.r[r]++;
+      histogram.g[g]++;
+      histogram.b[b]++;
+      histogram.luma[Math.round(luminance(r, g, b))]++;
+      parade.r[column + r]++;
+      parade.g[column + g]++;
+      parade.b[column + b]++;
+      chroma += Math.max(r, g, b) - Math.min(r, g, b);
+    }
+  }
+
+  return { histogram, parade, chroma: chroma / (width * height), ...grainSpectrum(img) };
+};
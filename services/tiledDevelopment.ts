@@ -0,0 +1,151 @@
+import { TileStatus } from "../types";
+import { createCanvas, loadImage } from "./canvasUtils";
+import { throwIfAborted } from "./labError";
+
+// Share of each tile that overlaps its neighbor; the seam is feathered across it.
+export const TILE_OVERLAP = 0.15;
+// Keeps the stitched canvas within what browsers will allocate and encode.
+export const TILED_MAX_LONG_EDGE = 8192;
+export const TILE_GRIDS = [1, 2, 3, 4];
+// Per-channel gain limits for seam color matching, so one odd tile cannot drag the print off.
+const MIN_GAIN = 0.85;
+const MAX_GAIN = 1.18;
+
+export const TILE_PROMPT_NOTE = "This frame is one section of a larger print: render it edge to edge, without borders, vignetting or reframing.";
+
+export interface TileRect {
+  row: number;
+  column: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TiledDevelopOptions {
+  grid: number;
+  develop: (tileUrl: string, index: number) => Promise<string>;
+  onTile?: (index: number, status: TileStatus) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Splits a frame into a grid of overlapping tiles, row by row. Every tile keeps the
+ * frame's proportions, so each one can be developed at the frame's aspect ratio.
+ */
+export const planTiles = (width: number, height: number, grid: number, overlap = TILE_OVERLAP): TileRect[] => {
+  const span = grid - (grid - 1) * overlap;
+  const tileWidth = width / span;
+  const tileHeight = height / span;
+  const tiles: TileRect[] = [];
+  for (let row = 0; row < grid; row++) {
+    for (let column = 0; column < grid; column++) {
+      const x = Math.round(column * tileWidth * (1 - overlap));
+      const y = Math.round(row * tileHeight * (1 - overlap));
+      const right = column === grid - 1 ? width : Math.round(x + tileWidth);
+      const bottom = row === grid - 1 ? height : Math.round(y + tileHeight);
+      tiles.push({ row, column, x, y, width: right - x, height: bottom - y });
+    }
+  }
+  return tiles;
+};
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+const channelMeans = (data: Uint8ClampedArray, width: number, region: { x: number; y: number; width: number; height: number }) => {
+  const sums = [0, 0, 0];
+  let count = 0;
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      const i = (y * width + x) * 4;
+      sums[0] += data[i];
+      sums[1] += data[i + 1];
+      sums[2] += data[i + 2];
+      count++;
+    }
+  }
+  return sums.map(sum => sum / Math.max(1, count));
+};
+
+/**
+ * Develops each tile through the engine, then stitches them onto one canvas.
+ * Before a tile is laid down its color is matched to what is already on the canvas
+ * in the overlap, and its leading edges are feathered so the seam blends away.
+ */
+export const developTiled = async (sourceUrl: string, options: TiledDevelopOptions): Promise<string> => {
+  const source = await loadImage(sourceUrl);
+  const sourceWidth = source.naturalWidth;
+  const sourceHeight = source.naturalHeight;
+  const tiles = planTiles(sourceWidth, sourceHeight, options.grid);
+  tiles.forEach((_, index) => options.onTile?.(index, 'pending'));
+
+  let output: ReturnType<typeof createCanvas> | null = null;
+  let scale = 1;
+  const toOutput = (value: number) => Math.round(value * scale);
+
+  for (let index = 0; index < tiles.length; index++) {
+    const tile = tiles[index];
+    throwIfAborted(options.signal);
+    options.onTile?.(index, 'developing');
+
+    const { canvas: crop, ctx: cropCtx } = createCanvas(tile.width, tile.height);
+    cropCtx.drawImage(source, tile.x, tile.y, tile.width, tile.height, 0, 0, tile.width, tile.height);
+    const developed = await loadImage(await options.develop(crop.toDataURL('image/png'), index));
+    throwIfAborted(options.signal);
+
+    // The first tile sets the print's resolution: the engine's upscale, capped for the browser
+    if (!output) {
+      scale = Math.min(developed.naturalWidth / tile.width, TILED_MAX_LONG_EDGE / Math.max(sourceWidth, sourceHeight));
+      output = createCanvas(toOutput(sourceWidth), toOutput(sourceHeight));
+      output.ctx.imageSmoothingQuality = 'high';
+    }
+
+    const x = toOutput(tile.x);
+    const y = toOutput(tile.y);
+    const width = toOutput(tile.x + tile.width) - x;
+    const height = toOutput(tile.y + tile.height) - y;
+    const left = tile.column > 0 ? toOutput(tiles[index - 1].x + tiles[index - 1].width) - x : 0;
+    const top = tile.row > 0 ? toOutput(tiles[index - options.grid].y + tiles[index - options.grid].height) - y : 0;
+
+    const { canvas: piece, ctx: pieceCtx } = createCanvas(width, height);
+    pieceCtx.imageSmoothingQuality = 'high';
+    pieceCtx.drawImage(developed, 0, 0, width, height);
+    const frame = pieceCtx.getImageData(0, 0, width, height);
+    const { data } = frame;
+
+    if (left > 0 || top > 0) {
+      // Compare against the stitched pixels in the overlap strips laid down by earlier tiles
+      const placed = output.ctx.getImageData(x, y, width, height).data;
+      const strips = [
+        ...(left > 0 ? [{ x: 0, y: 0, width: left, height }] : []),
+        ...(top > 0 ? [{ x: left, y: 0, width: width - left, height: top }] : [])
+      ];
+      const target = [0, 0, 0];
+      const current = [0, 0, 0];
+      strips.forEach(strip => {
+        const share = (strip.width * strip.height) / strips.reduce((sum, s) => sum + s.width * s.height, 0);
+        channelMeans(placed, width, strip).forEach((mean, c) => target[c] += mean * share);
+        channelMeans(data, width, strip).forEach((mean, c) => current[c] += mean * share);
+      });
+      const gains = current.map((mean, c) => Math.min(MAX_GAIN, Math.max(MIN_GAIN, mean > 0 ? target[c] / mean : 1)));
+
+      for (let py = 0; py < height; py++) {
+        const rampY = top > 0 && py < top ? smoothstep(py / top) : 1;
+        for (let px = 0; px < width; px++) {
+          const i = (py * width + px) * 4;
+          const rampX = left > 0 && px < left ? smoothstep(px / left) : 1;
+          data[i] = data[i] * gains[0];
+          data[i + 1] = data[i + 1] * gains[1];
+          data[i + 2] = data[i + 2] * gains[2];
+          data[i + 3] = data[i + 3] * rampX * rampY;
+        }
+      }
+      pieceCtx.putImageData(frame, 0, 0);
+    }
+
+    output.ctx.drawImage(piece, x, y);
+    options.onTile?.(index, 'done');
+  }
+
+  return output!.canvas.toDataURL('image/png');
+};
@@ -0,0 +1,27 @@
+import { AspectRatio, ImageSize, ISOValue, ProcessorId } from "../types";
+import { ISO_VALUES } from "./filmStockRegistry";
+
+// Narrowing helpers for JSON the lab did not write itself: imported files, embedded metadata and storage.
+
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+const PROCESSOR_IDS: ProcessorId[] = ['gemini', 'local'];
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+export const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isIsoValue = (value: unknown): value is ISOValue => ISO_VALUES.includes(value as ISOValue);
+
+export const isImageSize = (value: unknown): value is ImageSize => IMAGE_SIZES.includes(value as ImageSize);
+
+export const isAspectRatio = (value: unknown): value is AspectRatio => ASPECT_RATIOS.includes(value as AspectRatio);
+
+export const isProcessorId = (value: unknown): value is ProcessorId => PROCESSOR_IDS.includes(value as ProcessorId);
+
+// Only images may be used as an <img> source; anything else in a data: URL is refused
+export const isImageDataUrl = (value: unknown): value is string => typeof value === 'string' && /^data:image\/(png|jpeg|webp);base64,/.test(value);
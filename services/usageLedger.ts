@@ -0,0 +1,194 @@
+import { ImageSize, LabErrorCode, UsageEntry, UsageOutcome, UsageSettings } from "../types";
+import { createBudgetError } from "./labError";
+
+const LEDGER_KEY = 'desynthesize_usage_ledger';
+const SETTINGS_KEY = 'desynthesize_usage_settings';
+const SPEND_KEY = 'desynthesize_usage_spend';
+// Older calls are dropped; monthly totals never look back further than this
+const LEDGER_RETENTION_MS = 400 * 24 * 60 * 60 * 1000;
+
+// Approximate list prices per generated image; editable in the usage panel.
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: { '1K': 0.134, '2K': 0.134, '4K': 0.24 },
+  dailyCap: 0,
+  monthlyCap: 0
+};
+
+export interface UsageTotals {
+  calls: number;
+  successes: number;
+  rejections: number;
+  failures: number;
+  cost: number;
+  averageLatencyMs: number;
+}
+
+// Billed spend for the current day and month, as the caps see it
+export interface UsageSpend {
+  today: number;
+  month: number;
+}
+
+// Stored apart from the ledger, so clearing the call history never resets the caps
+interface StoredSpend {
+  day: string;
+  dayCost: number;
+  month: string;
+  monthCost: number;
+}
+
+// Estimated cost held for a paid call from before it is sent until it is settled
+export interface BudgetReservation {
+  cost: number;
+}
+
+export interface BudgetStatus {
+  period: 'daily' | 'monthly';
+  spent: number;
+  cap: number;
+}
+
+export const loadUsage = (): UsageEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LEDGER_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+// Erases the call history only. Spend toward the caps is kept in its own record.
+export const clearUsage = () => {
+  localStorage.removeItem(LEDGER_KEY);
+};
+
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    return stored ? { ...DEFAULT_USAGE_SETTINGS, ...stored, prices: { ...DEFAULT_USAGE_SETTINGS.prices, ...stored.prices } } : DEFAULT_USAGE_SETTINGS;
+  } catch {
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const storeUsageSettings = (settings: UsageSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const outcomeFor = (code?: LabErrorCode): UsageOutcome => {
+  if (!code) return 'success';
+  if (code === 'SAFETY' || code === 'RECITATION') return 'rejected';
+  if (code === 'CANCELLED' || code === 'TIMEOUT') return 'cancelled';
+  return 'failed';
+};
+
+// Only paid engines cost anything. A delivered image is billed, and so is a call abandoned in flight,
+// since the engine still renders it after the lab stops waiting. Failed and rejected calls are not.
+export const estimateCost = (settings: UsageSettings, paid: boolean, size: ImageSize, outcome: UsageOutcome) =>
+  paid && (outcome === 'success' || outcome === 'cancelled') ? settings.prices[size] ?? 0 : 0;
+
+const startOfDay = (now: Date) => new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+const startOfMonth = (now: Date) => new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+const dayKey = (now: Date) => `${now.getFullYear()}-${now.getMonth() + 1}-${now.getDate()}`;
+const monthKey = (now: Date) => `${now.getFullYear()}-${now.getMonth() + 1}`;
+
+// Periods that have rolled over, and a missing record, read as zero.
+const readSpend = (now: Date): StoredSpend => {
+  let stored: StoredSpend | null = null;
+  try {
+    stored = JSON.parse(localStorage.getItem(SPEND_KEY) || 'null');
+  } catch {
+    stored = null;
+  }
+  if (!stored) return { day: dayKey(now), dayCost: 0, month: monthKey(now), monthCost: 0 };
+  return {
+    day: dayKey(now),
+    dayCost: stored.day === dayKey(now) ? stored.dayCost : 0,
+    month: monthKey(now),
+    monthCost: stored.month === monthKey(now) ? stored.monthCost : 0
+  };
+};
+
+export const loadSpend = (now = new Date()): UsageSpend => {
+  const { dayCost, monthCost } = readSpend(now);
+  return { today: dayCost, month: monthCost };
+};
+
+const addSpend = (cost: number, now = new Date()) => {
+  const spend = readSpend(now);
+  localStorage.setItem(SPEND_KEY, JSON.stringify({ ...spend, dayCost: spend.dayCost + cost, monthCost: spend.monthCost + cost }));
+};
+
+// Appends a call to the ledger and its cost to the spend, and returns the pruned ledger. Reads storage afresh so concurrent jobs do not drop entries.
+export const recordUsage = (entry: UsageEntry): UsageEntry[] => {
+  const cutoff = entry.timestamp - LEDGER_RETENTION_MS;
+  const ledger = [...loadUsage().filter(item => item.timestamp >= cutoff), entry];
+  localStorage.setItem(LEDGER_KEY, JSON.stringify(ledger));
+  addSpend(entry.cost);
+  return ledger;
+};
+
+const totalsSince = (ledger: UsageEntry[], since: number): UsageTotals => {
+  const entries = ledger.filter(entry => entry.timestamp >= since);
+  const timed = entries.filter(entry => entry.outcome !== 'cancelled');
+  return {
+    calls: entries.length,
+    successes: entries.filter(entry => entry.outcome === 'success').length,
+    rejections: entries.filter(entry => entry.outcome === 'rejected').length,
+    failures: entries.filter(entry => entry.outcome === 'failed').length,
+    cost: entries.reduce((sum, entry) => sum + entry.cost, 0),
+    averageLatencyMs: timed.length ? timed.reduce((sum, entry) => sum + entry.latencyMs, 0) / timed.length : 0
+  };
+};
+
+export const summarizeUsage = (ledger: UsageEntry[], now = new Date()) => ({
+  today: totalsSince(ledger, startOfDay(now)),
+  month: totalsSince(ledger, startOfMonth(now))
+});
+
+// The first cap that estimated spending has reached, or null while there is budget left.
+export const exceededBudget = (settings: UsageSettings, spend: UsageSpend = loadSpend()): BudgetStatus | null => {
+  if (settings.dailyCap > 0 && spend.today >= settings.dailyCap) return { period: 'daily', spent: spend.today, cap: settings.dailyCap };
+  if (settings.monthlyCap > 0 && spend.month >= settings.monthlyCap) return { period: 'monthly', spent: spend.month, cap: settings.monthlyCap };
+  return null;
+};
+
+// Costs reserved by calls still in flight in this tab, which is where the queue runs its concurrent jobs.
+let reservedCost = 0;
+
+// The first cap that one more call of the given cost would go over, counting calls still in flight.
+const budgetShortfall = (settings: UsageSettings, cost: number): BudgetStatus | null => {
+  const spend = loadSpend();
+  const today = spend.today + reservedCost;
+  const month = spend.month + reservedCost;
+  const over = (spent: number, cap: number) => cap > 0 && (spent >= cap || spent + cost > cap);
+  if (over(today, settings.dailyCap)) return { period: 'daily', spent: today, cap: settings.dailyCap };
+  if (over(month, settings.monthlyCap)) return { period: 'monthly', spent: month, cap: settings.monthlyCap };
+  return null;
+};
+
+// Throws a BUDGET lab error when another paid print would exceed the cap. Local development is always allowed.
+export const assertWithinBudget = (paid: boolean, settings: UsageSettings, size: ImageSize) => {
+  if (!paid) return;
+  const shortfall = budgetShortfall(settings, settings.prices[size] ?? 0);
+  if (shortfall) throw createBudgetError(shortfall.period, shortfall.spent, shortfall.cap);
+};
+
+/**
+ * Holds a paid call's estimated cost against the caps before it is sent, so concurrent
+ * jobs cannot all pass the check and overshoot together. Every reservation must be
+ * settled once the call returns or fails.
+ */
+export const reserveBudget = (paid: boolean, settings: UsageSettings, size: ImageSize): BudgetReservation => {
+  if (!paid) return { cost: 0 };
+  assertWithinBudget(paid, settings, size);
+  const cost = settings.prices[size] ?? 0;
+  reservedCost += cost;
+  return { cost };
+};
+
+// Releases the reservation and records what the call actually cost. Returns the pruned ledger.
+export const settleUsage = (reservation: BudgetReservation, entry: UsageEntry): UsageEntry[] => {
+  reservedCost = Math.max(0, reservedCost - reservation.cost);
+  return recordUsage(entry);
+};
@@ -0,0 +1,151 @@
+// Minimal ZIP container (STORE method only). Images are already compressed, so
+// deflate would buy little; this keeps archives readable by any unzip tool without a dependency.
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const MAX_ZIP32 = 0xffffffff;
+// Entry counts in the end record are 16-bit; more entries would need ZIP64
+const MAX_ZIP32_ENTRIES = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+// Builds the archive as a Blob of parts so image data is never copied into one large buffer.
+export const createZip = async (entries: ZipEntry[], modified = new Date()): Promise<Blob> => {
+  if (entries.length > MAX_ZIP32_ENTRIES) {
+    throw new Error(`The archive would hold more than ${MAX_ZIP32_ENTRIES} files. Export fewer prints at a time.`);
+  }
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(new Uint8Array(await entry.data.arrayBuffer()));
+    const size = entry.data.size;
+    if (offset + size > MAX_ZIP32) {
+      throw new Error("The archive is larger than 4 GB. Export fewer prints at a time.");
+    }
+
+    const local = new DataView(new ArrayBuffer(30 + name.length));
+    local.setUint32(0, LOCAL_HEADER, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    new Uint8Array(local.buffer).set(name, 30);
+
+    const header = new DataView(new ArrayBuffer(46 + name.length));
+    header.setUint32(0, CENTRAL_HEADER, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, UTF8_FLAG, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    new Uint8Array(header.buffer).set(name, 46);
+
+    parts.push(local.buffer, entry.data);
+    central.push(new Uint8Array(header.buffer));
+    offset += local.byteLength + size;
+  }
+
+  const centralSize = central.reduce((sum, header) => sum + header.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+const readView = async (blob: Blob, start: number, length: number) =>
+  new DataView(await blob.slice(start, start + length).arrayBuffer());
+
+// Reads the central directory and returns each stored file as a slice of the archive.
+export const readZip = async (archive: Blob): Promise<ZipEntry[]> => {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  const tailStart = Math.max(0, archive.size - 22 - 0xffff);
+  const tail = await readView(archive, tailStart, archive.size - tailStart);
+  let endOffset = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error("This file is not a ZIP archive.");
+  }
+
+  const count = tail.getUint16(endOffset + 10, true);
+  const centralSize = tail.getUint32(endOffset + 12, true);
+  const centralOffset = tail.getUint32(endOffset + 16, true);
+  const directory = await readView(archive, centralOffset, centralSize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  let pointer = 0;
+  for (let i = 0; i < count; i++) {
+    if (directory.getUint32(pointer, true) !== CENTRAL_HEADER) {
+      throw new Error("The archive's file directory is damaged.");
+    }
+    const method = directory.getUint16(pointer + 10, true);
+    const size = directory.getUint32(pointer + 20, true);
+    const nameLength = directory.getUint16(pointer + 28, true);
+    const extraLength = directory.getUint16(pointer + 30, true);
+    const commentLength = directory.getUint16(pointer + 32, true);
+    const localOffset = directory.getUint32(pointer + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, pointer + 46, nameLength));
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (method !== 0) {
+      throw new Error(`"${name}" is compressed. Only archives exported from the lab can be imported.`);
+    }
+    const local = await readView(archive, localOffset, 30);
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    entries.push({ name, data: archive.slice(dataStart, dataStart + size) });
+  }
+  return entries;
+};
@@ -1,7 +1,7 @@
 export type ImageSize = '1K' | '2K' | '4K';
 export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
 
-export type FilmStock = 
+export type BuiltInFilmStock = 
   | 'Kodak Portra 400' 
   | 'Kodak Gold 200' 
   | 'Kodak Ektachrome E100'
@@ -12,8 +12,48 @@ export type FilmStock =
   | 'Ilford HP5 Plus (B&W)'
   | 'Cinestill 800T';
 
+// Built-in stocks plus the name of any user-defined profile from the film stock registry
+export type FilmStock = BuiltInFilmStock | (string & {});
+
 export type ISOValue = 200 | 400 | 800 | 1600;
 
+export interface ThemeConfig {
+  brand: string;
+  accent: string;
+  logo: string;
+  logoBg: string;
+  logoText: string;
+}
+
+export interface GrainCharacter {
+  character: number; // Multiplier on the ISO amplitude; T-grain stocks run fine, push stocks run gritty
+  sizeBias: number;
+  chroma: number;    // 0 = monochrome grain, 1 = fully independent per-channel grain
+  shadowLift: number;
+}
+
+export interface FilmStockProfile {
+  name: FilmStock;
+  manufacturer: string;
+  characteristics: string; // Prose handed to the Emulsion Engine in the development prompt
+  isoRange: ISOValue[];    // Speeds this stock may be developed at
+  monochrome: boolean;
+  theme: ThemeConfig;
+  baseStock?: BuiltInFilmStock; // Built-in stock whose LUT seeds the color grade
+  grain?: GrainCharacter;       // Overrides the base stock's grain character
+  builtIn: boolean;
+  createdAt?: number;
+}
+
+export type ProcessorId = 'gemini' | 'local';
+
+export interface GrainPass {
+  source: 'developed' | 'original'; // Which image the local grain was rendered onto
+  filmStock: FilmStock;
+  iso: ISOValue;
+  seed: number;
+}
+
 export interface ProcessedImage {
   id: string;
   originalUrl: string;
@@ -25,12 +65,184 @@ export interface ProcessedImage {
   filmStock: FilmStock;
   iso: ISOValue;
   skinDetail: number; // Intensity of skin imperfection reconstruction (0-100)
+  processor?: ProcessorId; // Which engine developed the print; older entries were all Gemini
+  grainPass?: GrainPass; // Set when the print was re-grained locally instead of developed
+  grade?: { lut: string; strength: number }; // LUT title and strength applied after development
+  recipe?: { id: string; name: string }; // Named recipe whose settings produced this print
+  mask?: PrintMask;  // Limits the developed pixels to painted regions; the rest stays original
+  tiles?: number;    // Grid size when the print was developed as n×n overlapping tiles
+  drift?: DriftMetrics; // How far the development strayed from the source's structure and color
+  promptTemplate?: PromptTemplateRef; // Template version the prompt was rendered from
+  cacheKey?: string; // SHA-256 of the source bytes and every setting that shapes the result
+  parentId?: string; // Print this one was re-developed or varied from
+  stackId?: string;  // First print of the lineage; variants of one source share it
   selected?: boolean; // For comparison feature
 }
 
+export interface DevelopmentRecipe {
+  filmStock: FilmStock;
+  iso: ISOValue;
+  skinDetail: number;
+  imageSize: ImageSize;
+  lutStrength: number; // 0-100 blend of the stock's LUT applied locally after development; 0 disables grading
+}
+
+// What happens when a development matches an earlier one: ask, reuse it silently, or always develop
+export type CacheMode = 'offer' | 'auto' | 'off';
+
+export type UsageOutcome = 'success' | 'rejected' | 'failed' | 'cancelled';
+
+// One call to a processor, as recorded in the local usage ledger
+export interface UsageEntry {
+  timestamp: number;
+  processor: ProcessorId;
+  size: ImageSize;
+  outcome: UsageOutcome;
+  errorCode?: LabErrorCode;
+  latencyMs: number;
+  cost: number; // Estimated at the prices in effect when the call was made
+}
+
+export interface UsageSettings {
+  prices: Record<ImageSize, number>; // Estimated cost per developed image, in dollars
+  dailyCap: number;   // 0 for no cap
+  monthlyCap: number; // 0 for no cap
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: number; // Counts up each time a template is saved under the same name
+  body: string;    // Final prompt, with {variables} filled in at development time
+  skinBands: { low: string; medium: string; high: string }; // {skinTexture} below 30, 30-70 and above 70
+  createdAt: number;
+}
+
+export type PromptTemplateRef = Pick<PromptTemplate, 'id' | 'name' | 'version'>;
+
+export interface SavedRecipe {
+  id: string;
+  name: string;
+  recipe: DevelopmentRecipe;
+  createdAt: number;
+}
+
+// Recipe and provenance written into downloaded PNGs and read back on upload.
+export interface PrintProvenance {
+  printId?: string;
+  recipe: DevelopmentRecipe;
+  recipeName?: string;
+  prompt?: string;
+  aspectRatio?: AspectRatio;
+  processor?: ProcessorId;
+  developedAt?: number;
+}
+
+export type HistorySort = 'newest' | 'oldest' | 'stock' | 'iso-asc' | 'iso-desc' | 'detail-desc' | 'detail-asc';
+
+export interface HistoryFilter {
+  filmStock?: FilmStock;
+  iso?: ISOValue;
+  skinMin: number;
+  skinMax: number;
+  size?: ImageSize;
+  aspectRatio?: AspectRatio;
+  from?: string; // Inclusive local dates, YYYY-MM-DD
+  to?: string;
+  text: string;
+}
+
+export interface ColorLut {
+  title: string;
+  size: number;         // Lattice points per axis
+  data: Float32Array;   // size^3 RGB triplets in .cube order (red varies fastest), 0-1 range
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+}
+
+export interface StoredLut extends ColorLut {
+  stock: FilmStock; // The stock this imported LUT replaces the built-in grade for
+}
+
+export interface DevelopmentInput {
+  base64Data: string;
+  mimeType: string;
+  aspectRatio: AspectRatio;
+  prompt: string;
+  stockProfile?: FilmStockProfile; // Resolved profile for custom stocks the processor has no built-in knowledge of
+}
+
+export type BatchJobStatus = 'queued' | 'developing' | 'done' | 'rejected';
+
+export interface PrintMask {
+  dataUrl: string; // PNG whose alpha marks where developed pixels are kept
+  feather: number; // Edge softness in mask pixels
+}
+
+export type PrintLineage = Required<Pick<ProcessedImage, 'parentId' | 'stackId'>>;
+
+export interface BatchJob {
+  id: string;
+  fileName: string;
+  originalUrl: string;
+  aspectRatio: AspectRatio;
+  recipe: DevelopmentRecipe; // Snapshot of the lab settings at the moment the frame was queued
+  processorId: ProcessorId;
+  lineage?: PrintLineage;
+  bracketId?: string; // Frames developed together by one bracketing run
+  mask?: PrintMask;
+  tiles?: number;     // Develop as an n×n tiled print, as the print being re-developed was
+  promptTemplateId?: string; // Template version to render the prompt with instead of the active one
+  status: BatchJobStatus;
+  error?: string;
+  errorCode?: LabErrorCode;
+  resultId?: string;
+}
+
+export type LabErrorCode =
+  | 'SAFETY'
+  | 'RECITATION'
+  | 'INTERRUPTED'
+  | 'RATE_LIMIT'
+  | 'PERMISSION'
+  | 'KEY_RESET'
+  | 'NO_IMAGE'
+  | 'NETWORK'
+  | 'CANCELLED'
+  | 'TIMEOUT'
+  | 'BUDGET'
+  | 'UNKNOWN';
+
+export interface LabErrorInfo {
+  code: LabErrorCode;
+  message: string;
+  why?: string;
+  remedy?: string;
+  retryable: boolean;
+  finishReason?: string; // Raw finish/block reason reported by the model, when there was one
+}
+
+export interface DriftMetrics {
+  ssim: number;           // Mean structural similarity of downscaled luminance (1 = identical)
+  edgeDifference: number; // 0 when contours match, up to 1 when unrelated
+  colorShift: { deltaE: number; r: number; g: number; b: number }; // Mean color change, CIE76 and per channel
+}
+
+export type TileStatus = 'pending' | 'developing' | 'done';
+
+// Pan offset as a fraction of the frame's width and height, so prints of different sizes line up
+export interface PanOffset {
+  x: number;
+  y: number;
+}
+
+// How ComparisonSlider lays the original over the developed print
+export type ComparisonMode = 'wipe' | 'split' | 'onion' | 'blink' | 'difference';
+
 export interface ProcessingState {
-  status: 'idle' | 'checking-key' | 'uploading' | 'processing' | 'error';
+  status: 'idle' | 'checking-key' | 'uploading' | 'processing' | 'cancelled' | 'error';
   message?: string;
+  error?: LabErrorInfo;
 }
 
 declare global {